@@ -1,2 +1,106 @@
 export { Chatbot } from './src/components/Chatbot';
-export type { ChatbotProps, ChatbotConfig, Message } from './src/components/Chatbot';
+export type {
+  ChatbotProps,
+  ChatbotConfig,
+  ChatbotHeaderSlot,
+  ChatbotInputSlot,
+  ChatbotLauncherSlot,
+  ChatbotMessageSlot,
+} from './src/components/Chatbot';
+export { ChatbotProvider, useChatbotContext } from './src/components/ChatbotProvider';
+export type { ChatbotProviderProps } from './src/components/ChatbotProvider';
+export { useChatbot } from './src/hooks/useChatbot';
+export type {
+  ChatbotEvents,
+  ChatbotState,
+  FeedbackEvent,
+  FeedbackRating,
+  HandoffState,
+  Message,
+  MessageFeedback,
+  ResponseCompleteEvent,
+  UseChatbotOptions,
+} from './src/hooks/useChatbot';
+export { formatMessage, getErrorMessage, getStrings, registerLocale } from './src/i18n';
+export type { ChatbotLocale, ChatbotStringOverrides, ChatbotStrings } from './src/i18n';
+export {
+  ChatbotError,
+  createChatProvider,
+  DEFAULT_ATTACHMENT_LIMITS,
+  DEFAULT_CONTEXT_WINDOWS,
+  estimateTokens,
+  readAttachment,
+  registerProvider,
+  toChatbotError,
+} from './src/provider';
+export type {
+  Attachment,
+  AttachmentLimits,
+  ChatbotErrorCode,
+  ChatHistoryMessage,
+  ChatProvider,
+  ChatTool,
+  CompleteOptions,
+  ContextOptions,
+  ContextStrategy,
+  GenerationParams,
+  PromptOptions,
+  ProviderFactory,
+  ProviderName,
+  ProviderOptions,
+  ResponseFormat,
+  RetryOptions,
+  TokenUsage,
+  ToolActivity,
+} from './src/provider';
+export {
+  createIndexedDBAdapter,
+  createLocalStorageAdapter,
+  createMemoryAdapter,
+  createSessionStorageAdapter,
+  createWebStorageAdapter,
+} from './src/storage';
+export type { ChatStorage, ChatThread, StorageAdapterOptions } from './src/storage';
+export { darkTheme, lightTheme, resolveTheme, themeToCssVariables } from './src/theme';
+export type { ChatbotTheme, ChatbotThemeName, ChatbotThemeOverrides } from './src/theme';
+export { costOf, findPrice, getUsageStatus } from './src/usage';
+export type { ModelPrice, PriceTable, UsageLedger, UsageLimits, UsageStatus } from './src/usage';
+export { clearSystemPromptCache, fillTemplate, loadSystemPrompt } from './src/prompt';
+export type { PromptVariables, SystemPrompt, SystemPromptSource } from './src/prompt';
+export { chunkDocument, createKnowledgeBase, DEFAULT_KNOWLEDGE_INSTRUCTIONS } from './src/knowledge';
+export type {
+  Citation,
+  Embedder,
+  KnowledgeBase,
+  KnowledgeChunk,
+  KnowledgeDocument,
+  KnowledgeOptions,
+  KnowledgePassage,
+  KnowledgeSource,
+} from './src/knowledge';
+export {
+  createPollingTransport,
+  createWebSocketTransport,
+  DEFAULT_HANDOFF_TRIGGERS,
+  matchesHandoffTrigger,
+} from './src/handoff';
+export type {
+  AgentEvent,
+  AgentInfo,
+  AgentSession,
+  HandoffOptions,
+  HandoffReason,
+  HandoffRequest,
+  LiveAgentTransport,
+  PollingTransportOptions,
+  TranscriptMessage,
+  WebSocketTransportOptions,
+} from './src/handoff';
+export {
+  parseTranscript,
+  TRANSCRIPT_VERSION,
+  transcriptToHtml,
+  transcriptToJson,
+  transcriptToMarkdown,
+} from './src/transcript';
+export type { ChatTranscript, TranscriptFormat, TranscriptLabels } from './src/transcript';
@@ -0,0 +1,4 @@
+export { createOpenAIProxyHandler, toNodeHandler } from './src/server/openaiProxy';
+export type { OpenAIProxyOptions, ProxyHandler } from './src/server/openaiProxy';
+export { createMockAgentHandler } from './src/server/mockAgent';
+export type { MockAgentOptions } from './src/server/mockAgent';
@@ -1,25 +1,122 @@
-import { useEffect, useState, useRef } from "react";
+import { memo, useEffect, useId, useState, useRef } from "react";
+import type { ReactNode } from "react";
 import { useChatbot } from "../../hooks/useChatbot";
+import { useVirtualList } from "../../hooks/useVirtualList";
+import type { ChatbotEvents, ChatbotState, Message } from "../../hooks/useChatbot";
 import Markdown from "react-markdown";
+import type { Components } from "react-markdown";
+import { DEFAULT_LOCALE, formatMessage, getErrorMessage, getStrings } from "../../i18n";
+import type { ChatbotLocale, ChatbotStringOverrides, ChatbotStrings } from "../../i18n";
+import { DEFAULT_ATTACHMENT_LIMITS, readAttachment } from "../../provider";
+import type {
+  Attachment,
+  ChatbotErrorCode,
+  ChatProvider,
+  ChatTool,
+  ContextStrategy,
+  ProviderName,
+  ProviderOptions,
+  ResponseFormat,
+  ToolActivity,
+} from "../../provider";
+import type { PromptVariables, SystemPrompt } from "../../prompt";
+import type { Citation, KnowledgeBase, KnowledgeOptions } from "../../knowledge";
+import type { AgentInfo, HandoffOptions } from "../../handoff";
+import type { ChatStorage } from "../../storage";
+import type { PriceTable, UsageLimits } from "../../usage";
+import { resolveTheme, themeToCssVariables, usePrefersDark } from "../../theme";
+import type { ChatbotTheme, ChatbotThemeName, ChatbotThemeOverrides } from "../../theme";
+import { chatbotStyles } from "./styles";
 
-export type ChatbotProps = {
+export type ChatbotProps = ChatbotEvents & {
+  provider?: ProviderName | ChatProvider;
+  providerOptions?: ProviderOptions;
+  endpoint?: string;
   apiKey?: string;
+  tools?: ChatTool[];
   avatar?: string;
   config?: ChatbotConfig;
+  /** Texto, URL, função ou lista deles. Aceita `{{variaveis}}` de `promptVariables`. */
+  systemPrompt?: SystemPrompt;
+  /** Ex.: `{ userName: user.name }`. `locale`, `pageUrl`, `pageTitle` e `date` já vêm prontas. */
+  promptVariables?: PromptVariables;
+  /** Documentos de ajuda buscados a cada pergunta. As respostas mostram as fontes citadas. */
+  knowledge?: KnowledgeOptions | KnowledgeBase;
+  /** Atendimento humano: o usuário, o modelo ou erros seguidos passam a conversa para um atendente. */
+  handoff?: HandoffOptions;
   initialPromptsFile?: string;
+  storageKey?: string;
+  storage?: ChatStorage;
+  /** Recebe cada avaliação das respostas via POST (ver `onFeedback`). */
+  feedbackEndpoint?: string;
+  locale?: ChatbotLocale;
+  strings?: ChatbotStringOverrides;
+  mode?: ChatbotMode;
+  /** Preset (`"light"`, `"dark"`, `"auto"`) ou ajustes finos sobre um deles. */
+  theme?: ChatbotThemeName | ChatbotThemeOverrides;
+  /** Controla a janela de fora. Sem ele, o componente guarda o próprio estado. */
+  isOpen?: boolean;
+  onOpenChange?: (isOpen: boolean) => void;
+  /** Janela abriu, por qualquer motivo (clique, atalho, `isOpen`, `openOnLoad`). */
+  onOpen?: () => void;
+  onClose?: () => void;
+  renderLauncher?: (slot: ChatbotLauncherSlot) => ReactNode;
+  renderHeader?: (slot: ChatbotHeaderSlot) => ReactNode;
+  renderMessage?: (message: Message, slot: ChatbotMessageSlot) => ReactNode;
+  renderTypingIndicator?: () => ReactNode;
+  renderInput?: (slot: ChatbotInputSlot) => ReactNode;
 };
 
-export type Message = {
-  role: "user" | "assistant" | "system" | "error";
-  content: string;
-  timestamp: number;
-  error?: boolean;
+/**
+ * `floating`: botão flutuante que abre uma janela. `inline`: ocupa o
+ * container pai, sempre aberto. `fullscreen`: a janela cobre a tela toda.
+ */
+export type ChatbotMode = "floating" | "inline" | "fullscreen";
+
+/**
+ * Cada slot recebe o estado do chat e, em `defaultContent`, a marcação
+ * padrão, para quem quiser só envolvê-la em vez de reescrever.
+ */
+type ChatbotSlot = {
+  chat: ChatbotState;
+  defaultContent: ReactNode;
+};
+
+export type ChatbotLauncherSlot = ChatbotSlot & {
+  open: () => void;
+  isOpen: boolean;
+  showWelcome: boolean;
+};
+
+export type ChatbotHeaderSlot = ChatbotSlot & {
+  chatbotName: string;
+  avatar: string;
+  close: () => void;
+  clear: () => void;
+  toggleThreads: () => void;
+};
+
+export type ChatbotMessageSlot = ChatbotSlot & {
+  isLast: boolean;
+};
+
+export type ChatbotInputSlot = ChatbotSlot & {
+  value: string;
+  setValue: (value: string) => void;
+  send: () => void;
+  attachments: Attachment[];
+  addFiles: (files: File[]) => Promise<void>;
+  removeAttachment: (id: string) => void;
 };
 
 export type ChatbotConfig = {
   chatbotName?: string;
   welcomeBubble?: string;
   firstBotMessage?: string;
+  /** Perguntas prontas mostradas antes da primeira mensagem. */
+  suggestions?: string[];
+  /** Após cada resposta, pede ao modelo 2 ou 3 próximas perguntas e mostra como atalhos. */
+  followUpSuggestions?: boolean;
   primaryColor?: string;
   backgroundColor?: string;
   headerColor?: string;
@@ -30,62 +127,572 @@ export type ChatbotConfig = {
   buttonColor?: string;
   typingDelay?: number;
   showClearButton?: boolean;
+  showThreads?: boolean;
+  /** Menu no header para baixar a conversa (Markdown, JSON, HTML) e importar um JSON. */
+  showExport?: boolean;
+  /** A partir de quantas mensagens a lista só monta o que está visível. `false` desliga. */
+  virtualizeAfter?: number | false;
+  /** Botões de 👍/👎 nas respostas do assistente. */
+  showFeedback?: boolean;
+  allowAttachments?: boolean;
+  maxAttachmentSize?: number;
+  maxAttachments?: number;
+  acceptedFileTypes?: string[];
+  position?: "left" | "right";
+  offsetX?: number | string;
+  offsetY?: number | string;
+  width?: number | string;
+  height?: number | string;
+  openOnLoad?: boolean;
+  /** Atalho global que abre e fecha o chat, como `"Alt+Shift+C"`. `false` desliga. */
+  openShortcut?: string | false;
   limit?: number;
   errorBubble?: string;
   errorText?: string;
   model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string | string[];
+  responseFormat?: ResponseFormat;
+  contextBudget?: number | Record<string, number>;
+  contextStrategy?: ContextStrategy;
+  /** Preço por 1M de tokens de cada modelo, para calcular o custo das respostas. */
+  pricing?: PriceTable;
+  usageLimits?: UsageLimits;
+  tokenCounter?: (text: string) => number;
   handleClearChat?: () => void;
 };
 
 const defaultConfig: ChatbotConfig = {
-  chatbotName: "Assistente IA",
-  welcomeBubble: "👋 Olá! Como posso ajudar você hoje?",
-  firstBotMessage: "Olá! Sou seu assistente virtual. Como posso te ajudar?",
-  primaryColor: "#10a37f",
-  backgroundColor: "#181C24",
-  headerColor: "#1e202c",
-  botBubble: "#f6f8fa",
-  botText: "#1b5e20",
-  userBubble: "#10a37f",
-  userText: "#ffffff",
-  buttonColor: "#10a37f",
-  errorBubble: "#fee2e2",
-  errorText: "#991b1b",
   typingDelay: 1200,
   showClearButton: false,
-  limit: 10,
-  model: "gpt-4o-mini",
+  showThreads: false,
+  showExport: false,
+  virtualizeAfter: 100,
+  showFeedback: false,
+  allowAttachments: false,
+  maxAttachmentSize: DEFAULT_ATTACHMENT_LIMITS.maxFileSize,
+  maxAttachments: DEFAULT_ATTACHMENT_LIMITS.maxFiles,
+  acceptedFileTypes: DEFAULT_ATTACHMENT_LIMITS.acceptedTypes,
+  position: "right",
+  offsetX: 32,
+  offsetY: 32,
+  width: 320,
+  height: 384,
+  openOnLoad: false,
+  openShortcut: "Alt+Shift+C",
   handleClearChat: () => { },
 };
 
+/** Números viram pixels; strings passam direto (`"50%"`, `"2rem"`...). */
+function toCssSize(value: number | string | undefined): string | undefined {
+  return typeof value === "number" ? `${value}px` : value;
+}
+
+/**
+ * As cores antigas do `config` continuam valendo, agora como ajustes do
+ * tema. `theme.colors` tem a palavra final.
+ */
+function legacyThemeColors(config: ChatbotConfig): Partial<ChatbotTheme["colors"]> {
+  const colors: Partial<ChatbotTheme["colors"]> = {
+    primary: config.primaryColor,
+    background: config.backgroundColor,
+    inputBackground: config.backgroundColor,
+    surface: config.headerColor,
+    botBubble: config.botBubble,
+    botText: config.botText,
+    userBubble: config.userBubble,
+    userText: config.userText,
+    button: config.buttonColor,
+    errorBubble: config.errorBubble,
+    errorText: config.errorText,
+  };
+
+  return Object.fromEntries(
+    Object.entries(colors).filter(([, value]) => value !== undefined),
+  );
+}
+
+/**
+ * Compara também a tecla física (`code`), porque no macOS o Alt troca o
+ * caractere de `key`.
+ */
+function matchesShortcut(event: KeyboardEvent, shortcut: string): boolean {
+  const parts = shortcut.toLowerCase().split("+");
+  const key = parts.pop();
+  const modifiers = new Set(parts);
+
+  if (
+    event.altKey !== modifiers.has("alt") ||
+    event.shiftKey !== modifiers.has("shift") ||
+    event.ctrlKey !== modifiers.has("ctrl") ||
+    event.metaKey !== (modifiers.has("meta") || modifiers.has("cmd"))
+  ) {
+    return false;
+  }
+
+  return event.key.toLowerCase() === key || event.code.toLowerCase() === `key${key}`;
+}
+
+/** Troca as marcações `[n]` da resposta por links para as fontes. */
+function linkCitations(content: string, sources?: Citation[]): string {
+  if (!sources?.length) return content;
+
+  return content.replace(/\[(\d+)\](?![(\[:])/g, (match, index: string) => {
+    const source = sources.find((s) => s.index === Number(index));
+    if (!source?.url) return match;
+
+    return `[\\[${index}\\]](${encodeURI(source.url)} "${source.title.replace(/"/g, "'")}")`;
+  });
+}
+
+const citationComponents: Components = {
+  a: ({ node: _node, children, ...props }) =>
+    typeof children === "string" && /^\[\d+\]$/.test(children) ? (
+      <a {...props} className="cb-citation" target="_blank" rel="noopener noreferrer">
+        {children}
+      </a>
+    ) : (
+      <a {...props}>{children}</a>
+    ),
+};
+
+/**
+ * Só reprocessa o Markdown quando o texto muda: durante o streaming, as
+ * mensagens já prontas não são parseadas de novo a cada trecho.
+ */
+const MessageMarkdown = memo(function MessageMarkdown({
+  children,
+  components,
+}: {
+  children: string;
+  components?: Components;
+}) {
+  return <Markdown components={components}>{children}</Markdown>;
+});
+
+const FOCUSABLE_SELECTOR = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled])",
+  "textarea:not([disabled])",
+  "select:not([disabled])",
+  '[tabindex]:not([tabindex="-1"])',
+].join(",");
+
+/** Erros que se repetiriam igual numa nova tentativa. */
+const NON_RETRYABLE_ERRORS: ChatbotErrorCode[] = [
+  "limit_reached",
+  "missing_api_key",
+  "missing_endpoint",
+  "turn_limit_reached",
+  "window_limit_reached",
+  "token_limit_reached",
+  "cost_limit_reached",
+  "storage_failed",
+];
+
+function TypingIndicator({ label }: { label: string }) {
+  return (
+    <div className="cb-typing" role="status" aria-label={label}>
+      {[0, 1, 2].map((i) => (
+        <div
+          key={i}
+          aria-hidden="true"
+          className="cb-typing-dot"
+          style={{ animationDelay: `${i * 0.2}s` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ErrorIcon() {
+  return (
+    <svg
+      className="cb-icon"
+      aria-hidden="true"
+      fill="currentColor"
+      viewBox="0 0 20 20"
+    >
+      <path
+        fillRule="evenodd"
+        d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
+
+function ToolIcon({ status }: { status: ToolActivity["status"] }) {
+  return status === "running" ? (
+    <span className="cb-spinner" />
+  ) : (
+    <svg
+      className="cb-icon-xs"
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d={status === "done" ? "M5 13l4 4L19 7" : "M6 18L18 6M6 6l12 12"}
+      />
+    </svg>
+  );
+}
+
+const AttachmentPreviews = memo(function AttachmentPreviews({
+  attachments,
+}: {
+  attachments: Attachment[];
+}) {
+  return (
+    <div className="cb-attachments">
+      {attachments.map((attachment) =>
+        attachment.kind === "image" && !attachment.omitted ? (
+          <img
+            key={attachment.id}
+            src={attachment.data}
+            alt={attachment.name}
+            className="cb-attachment-image"
+          />
+        ) : (
+          <span
+            key={attachment.id}
+            className="cb-attachment-file"
+          >
+            📄 {attachment.name}
+          </span>
+        ),
+      )}
+    </div>
+  );
+});
+
+function ActionButton({
+  label,
+  icon,
+  onClick,
+  pressed,
+}: {
+  label: string;
+  icon: string;
+  onClick: () => void;
+  pressed?: boolean;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`cb-icon-button${pressed ? " cb-selected" : ""}`}
+      aria-label={label}
+      aria-pressed={pressed}
+      title={label}
+    >
+      <svg
+        className="cb-icon-sm"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d={icon}
+        />
+      </svg>
+    </button>
+  );
+}
+
+type MessageActionsProps = {
+  message: Message;
+  strings: ChatbotStrings;
+  showFeedback?: boolean;
+  copied: boolean;
+  canEdit: boolean;
+  canRegenerate: boolean;
+  onRateUp: (message: Message) => void;
+  onRateDown: (message: Message) => void;
+  onCopy: (message: Message) => void;
+  onEdit: (message: Message) => void;
+  onRegenerate: () => void;
+  onDelete: (id: string) => void;
+};
+
+function MessageActions({
+  message,
+  strings,
+  showFeedback,
+  copied,
+  canEdit,
+  canRegenerate,
+  onRateUp,
+  onRateDown,
+  onCopy,
+  onEdit,
+  onRegenerate,
+  onDelete,
+}: MessageActionsProps) {
+  return (
+    <div className={`cb-message-actions${message.feedback ? " cb-rated" : ""}`}>
+      {message.role === "assistant" && showFeedback && (
+        <>
+          <ActionButton
+            label={strings.goodResponse}
+            icon="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5"
+            onClick={() => onRateUp(message)}
+            pressed={message.feedback?.rating === "up"}
+          />
+          <ActionButton
+            label={strings.badResponse}
+            icon="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5"
+            onClick={() => onRateDown(message)}
+            pressed={message.feedback?.rating === "down"}
+          />
+        </>
+      )}
+      <ActionButton
+        label={copied ? strings.copied : strings.copy}
+        icon={
+          copied
+            ? "M5 13l4 4L19 7"
+            : "M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+        }
+        onClick={() => onCopy(message)}
+      />
+      {canEdit && (
+        <ActionButton
+          label={strings.edit}
+          icon="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536A2 2 0 0111.121 17H9v-2.121A2 2 0 019.586 13.586z"
+          onClick={() => onEdit(message)}
+        />
+      )}
+      {canRegenerate && (
+        <ActionButton
+          label={strings.regenerate}
+          icon="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+          onClick={onRegenerate}
+        />
+      )}
+      <ActionButton
+        label={strings.delete}
+        icon="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+        onClick={() => onDelete(message.id)}
+      />
+    </div>
+  );
+}
+
+function SuggestionChips({
+  suggestions,
+  label,
+  disabled,
+  onSelect,
+}: {
+  suggestions: string[];
+  label: string;
+  disabled: boolean;
+  onSelect: (suggestion: string) => void;
+}) {
+  return (
+    <div className="cb-suggestions" role="group" aria-label={label}>
+      {suggestions.map((suggestion) => (
+        <button
+          key={suggestion}
+          onClick={() => onSelect(suggestion)}
+          disabled={disabled}
+          className="cb-suggestion"
+        >
+          {suggestion}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+const AgentAvatar = memo(function AgentAvatar({
+  agent,
+  fallbackName,
+}: {
+  agent?: AgentInfo;
+  fallbackName: string;
+}) {
+  return agent?.avatar ? (
+    <img src={agent.avatar} alt={agent.name} className="cb-avatar" />
+  ) : (
+    <div className="cb-avatar cb-agent-initial" aria-hidden="true">
+      {(agent?.name ?? fallbackName).charAt(0).toUpperCase()}
+    </div>
+  );
+});
+
 export function Chatbot({
+  provider = "openai",
+  providerOptions,
+  endpoint,
   apiKey,
+  tools,
   avatar = "https://upload.wikimedia.org/wikipedia/commons/0/04/ChatGPT_logo.svg",
   config: userConfig,
+  systemPrompt,
+  promptVariables,
+  knowledge,
+  handoff,
   initialPromptsFile = "/llms.md",
+  storageKey = "openai",
+  storage,
+  feedbackEndpoint,
+  locale,
+  strings: stringOverrides,
+  mode = "floating",
+  theme = "dark",
+  isOpen: controlledOpen,
+  onOpenChange,
+  onOpen,
+  onClose,
+  onMessageSent,
+  onResponseStart,
+  onResponseComplete,
+  onError,
+  onAbort,
+  onFeedback,
+  onHandoffStart,
+  onHandoffEnd,
+  renderLauncher,
+  renderHeader,
+  renderMessage,
+  renderTypingIndicator,
+  renderInput,
 }: ChatbotProps) {
-  const config = { ...defaultConfig, ...userConfig };
-  const { messages, loading, sendMessage, init, clearChat, abortChatMessage } =
-    useChatbot({
-      provider: "openai",
-      apiKey,
-      config: {
-        limit: config.limit || 10,
-        model: config.model,
+  const strings = getStrings(locale, stringOverrides);
+  const config = {
+    ...defaultConfig,
+    chatbotName: strings.chatbotName,
+    welcomeBubble: strings.welcomeBubble,
+    firstBotMessage: strings.firstBotMessage,
+    ...userConfig,
+  };
+  const prefersDark = usePrefersDark();
+  const themeOverrides = typeof theme === "string" ? {} : theme;
+  const preset = typeof theme === "string" ? theme : (theme.preset ?? "dark");
+  const resolvedTheme = resolveTheme(
+    preset === "auto" ? (prefersDark ? "dark" : "light") : preset,
+    {
+      ...themeOverrides,
+      colors: { ...legacyThemeColors(config), ...themeOverrides.colors },
+    },
+  );
+  const chat = useChatbot({
+    provider: endpoint ? "proxy" : provider,
+    providerOptions: endpoint ? { ...providerOptions, endpoint } : providerOptions,
+    apiKey,
+    config: {
+      limit: config.limit,
+      model: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      topP: config.topP,
+      stop: config.stop,
+      responseFormat: config.responseFormat,
+      context: {
+        budget: config.contextBudget,
+        strategy: config.contextStrategy,
+        tokenCounter: config.tokenCounter,
       },
-      initialPromptsFile,
-    });
+      pricing: config.pricing,
+      usageLimits: config.usageLimits,
+      followUpSuggestions: config.followUpSuggestions,
+    },
+    tools,
+    systemPrompt,
+    promptVariables,
+    knowledge,
+    handoff,
+    initialPromptsFile,
+    storageKey,
+    storage,
+    feedbackEndpoint,
+    locale,
+    strings: stringOverrides,
+    onMessageSent,
+    onResponseStart,
+    onResponseComplete,
+    onError,
+    onAbort,
+    onFeedback,
+    onHandoffStart,
+    onHandoffEnd,
+  });
+  const {
+    messages,
+    loading,
+    sendMessage,
+    init,
+    clearChat,
+    abortChatMessage,
+    editMessage,
+    regenerate,
+    deleteMessage,
+    rateMessage,
+    usage,
+    handoff: handoffState,
+    endHandoff,
+    downloadTranscript,
+    importTranscript,
+    threads,
+    activeThreadId,
+    createThread,
+    switchThread,
+    renameThread,
+    deleteThread,
+  } = chat;
 
   const [input, setInput] = useState("");
-  const [isOpen, setIsOpen] = useState(false);
+  const [internalOpen, setInternalOpen] = useState(config.openOnLoad ?? false);
+  const isOpen = mode === "inline" || (controlledOpen ?? internalOpen);
   const [showWelcome, setShowWelcome] = useState(true);
   const [firstMessageShown, setFirstMessageShown] = useState(false);
+  const [showThreadList, setShowThreadList] = useState(false);
+  const [editingThreadId, setEditingThreadId] = useState<string | null>(null);
+  const [threadTitle, setThreadTitle] = useState("");
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
+  const [feedbackMessageId, setFeedbackMessageId] = useState<string | null>(null);
+  const [feedbackComment, setFeedbackComment] = useState("");
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const windowRef = useRef<HTMLDivElement>(null);
+  const windowId = useId();
+  const [announcement, setAnnouncement] = useState("");
+  const wasLoading = useRef(false);
+
+  const virtualized =
+    config.virtualizeAfter !== false && messages.length > (config.virtualizeAfter ?? 100);
 
+  const list = useVirtualList({
+    count: messages.length,
+    getKey: (index) => messages[index].id,
+    scrollRef: messagesRef,
+    enabled: virtualized,
+  });
+
+  // Em listas virtualizadas a rolagem suave passa por alturas ainda estimadas.
   const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    messagesEndRef.current?.scrollIntoView({ behavior: virtualized ? "auto" : "smooth" });
   };
 
   useEffect(() => {
@@ -96,389 +703,1086 @@ export function Chatbot({
     init();
   }, [init]);
 
+  // Os limites valem para o bot; a conversa com o atendente continua liberada.
+  const isBlocked = !!usage.blockedBy && handoffState.status === "idle";
+
   const handleSend = () => {
-    if (!input.trim() || loading) return;
-    sendMessage(input);
+    if ((!input.trim() && pendingAttachments.length === 0) || loading || isBlocked) return;
+    sendMessage(input, pendingAttachments);
     setInput("");
+    setPendingAttachments([]);
+    setAttachmentError(null);
+    setShowThreadList(false);
   };
 
-  const handleOpen = () => {
-    setIsOpen(true);
+  const addFiles = async (files: File[]) => {
+    if (!config.allowAttachments || files.length === 0) return;
+
+    const limits = {
+      maxFileSize: config.maxAttachmentSize ?? DEFAULT_ATTACHMENT_LIMITS.maxFileSize,
+      maxFiles: config.maxAttachments ?? DEFAULT_ATTACHMENT_LIMITS.maxFiles,
+      acceptedTypes: config.acceptedFileTypes ?? DEFAULT_ATTACHMENT_LIMITS.acceptedTypes,
+    };
+    const room = Math.max(limits.maxFiles - pendingAttachments.length, 0);
+
+    setAttachmentError(
+      files.length > room
+        ? formatMessage(strings.errors.too_many_files, { max: limits.maxFiles })
+        : null,
+    );
+
+    const results = await Promise.allSettled(
+      files.slice(0, room).map((file) => readAttachment(file, limits)),
+    );
+
+    const accepted: Attachment[] = [];
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        accepted.push(result.value);
+      } else {
+        setAttachmentError(getErrorMessage(result.reason, strings));
+      }
+    }
+
+    setPendingAttachments((prev) => [...prev, ...accepted].slice(0, limits.maxFiles));
+  };
+
+  const removeAttachment = (id: string) => {
+    setPendingAttachments((prev) => prev.filter((a) => a.id !== id));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (!config.allowAttachments || files.length === 0) return;
+
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!config.allowAttachments) return;
+
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!config.allowAttachments) return;
+
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const setOpen = (open: boolean) => {
+    if (controlledOpen === undefined) {
+      setInternalOpen(open);
+    }
+    onOpenChange?.(open);
+  };
+
+  // Vale também para quem abre pela prop `isOpen` ou pelo `openOnLoad`.
+  useEffect(() => {
+    if (!isOpen) return;
+
     setShowWelcome(false);
     setFirstMessageShown(true);
-    setTimeout(() => inputRef.current?.focus(), 200);
+
+    if (mode !== "inline") {
+      const timer = setTimeout(() => inputRef.current?.focus(), 200);
+      return () => clearTimeout(timer);
+    }
+  }, [isOpen, mode]);
+
+  const wasOpen = useRef(false);
+
+  useEffect(() => {
+    if (isOpen === wasOpen.current) return;
+
+    wasOpen.current = isOpen;
+    if (isOpen) {
+      onOpen?.();
+    } else {
+      onClose?.();
+    }
+  }, [isOpen]);
+
+  // Devolve o foco para onde estava (normalmente o botão flutuante) ao fechar.
+  useEffect(() => {
+    if (!isOpen || mode === "inline") return;
+
+    const previousFocus = document.activeElement as HTMLElement | null;
+    return () => previousFocus?.focus?.();
+  }, [isOpen, mode]);
+
+  // A lista de mensagens não é lida token a token; só a resposta pronta é anunciada.
+  useEffect(() => {
+    if (wasLoading.current && !loading) {
+      const last = messages[messages.length - 1];
+
+      if (last?.role === "assistant") {
+        setAnnouncement(
+          formatMessage(strings.replyAnnouncement, {
+            name: config.chatbotName ?? strings.chatbotName,
+            message: last.content,
+          }),
+        );
+      }
+
+      // O input fica desabilitado durante a resposta e o foco cai no body.
+      if (isOpen && document.activeElement === document.body) {
+        inputRef.current?.focus();
+      }
+    }
+
+    wasLoading.current = loading;
+  }, [loading, messages, isOpen, strings, config.chatbotName]);
+
+  // Mensagens do atendente chegam sem passar por `loading`.
+  const lastMessage = messages[messages.length - 1];
+
+  useEffect(() => {
+    if (lastMessage?.role === "agent") {
+      setAnnouncement(
+        formatMessage(strings.replyAnnouncement, {
+          name: lastMessage.agent?.name ?? strings.agentLabel,
+          message: lastMessage.content,
+        }),
+      );
+    }
+  }, [lastMessage?.id]);
+
+  const handleOpen = () => {
+    setOpen(true);
   };
 
   const handleClose = () => {
-    setIsOpen(false);
+    setOpen(false);
   };
 
-  const TypingIndicator = () => (
-    <div className="flex items-center gap-1 ml-10 my-2 h-6">
-      {[0, 1, 2].map((i) => (
-        <div
-          key={i}
-          className="typing-dot"
-          style={{
-            backgroundColor: config.botText,
-            animationDelay: `${i * 0.2}s`,
-          }}
-        />
-      ))}
-    </div>
-  );
+  // Se o último clique ou foco foi no chat. O campo fica desabilitado durante
+  // a resposta e o foco cai no `body`, então só `activeElement` não basta.
+  const usingChat = useRef(false);
 
-  const handleClear = () => {
-    clearChat();
-    userConfig?.handleClearChat?.();
-  };
+  useEffect(() => {
+    const track = (event: Event) => {
+      usingChat.current = !!windowRef.current?.contains(event.target as Node);
+    };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
+    document.addEventListener("focusin", track);
+    document.addEventListener("pointerdown", track);
+
+    return () => {
+      document.removeEventListener("focusin", track);
+      document.removeEventListener("pointerdown", track);
+    };
+  }, []);
+
+  // Sem lista de dependências para sempre enxergar o estado atual.
+  useEffect(() => {
+    const handleShortcut = (event: KeyboardEvent) => {
+      // No modo inline a página continua usável, então o Esc de outro lugar não é do chat.
+      const inChat =
+        mode !== "inline" ||
+        (usingChat.current &&
+          (document.activeElement === document.body ||
+            !!windowRef.current?.contains(document.activeElement)));
+
+      if (event.key === "Escape" && loading && isOpen && inChat) {
+        event.preventDefault();
+        abortChatMessage();
+        return;
+      }
+
+      if (
+        mode !== "inline" &&
+        config.openShortcut &&
+        matchesShortcut(event, config.openShortcut)
+      ) {
+        event.preventDefault();
+        setOpen(!isOpen);
+      }
+    };
+
+    document.addEventListener("keydown", handleShortcut);
+    return () => document.removeEventListener("keydown", handleShortcut);
+  });
+
+  /** Esc fecha e Tab circula só dentro da janela enquanto ela estiver aberta. */
+  const handleWindowKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "Escape") {
+      // Com resposta em andamento, o Esc cancela (tratado no document).
+      if (!loading && mode !== "inline") {
+        e.preventDefault();
+        handleClose();
+      }
+      return;
+    }
+
+    if (e.key !== "Tab" || mode === "inline") return;
+
+    const focusable = Array.from(
+      e.currentTarget.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR),
+    ).filter((element) => !element.closest(".cb-hidden"));
+
+    if (focusable.length === 0) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (e.shiftKey && document.activeElement === first) {
       e.preventDefault();
-      handleSend();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
     }
   };
 
-  const ErrorIcon = () => (
-    <svg
-      className="w-4 h-4 shrink-0"
-      fill="currentColor"
-      viewBox="0 0 20 20"
-    >
-      <path
-        fillRule="evenodd"
-        d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z"
-        clipRule="evenodd"
-      />
-    </svg>
-  );
-
-  return (
-    <div className="relative">
-      <style>{`
-        .typing-dot {
-          width: 8px;
-          height: 8px;
-          border-radius: 50%;
-          opacity: 0.3;
-          animation: typing-pulse 1.4s infinite;
-        }
+  const side = config.position === "left" ? "left" : "right";
+  const offsetX = toCssSize(config.offsetX);
+  const offsetY = toCssSize(config.offsetY);
 
-        @keyframes typing-pulse {
-          0%, 60%, 100% {
-            opacity: 0.3;
-            transform: scale(0.8);
-          }
-          30% {
-            opacity: 1;
-            transform: scale(1);
-          }
-        }
+  const windowClassName = `cb-window cb-window-${mode}${isDragging ? " cb-dragging" : ""}`;
 
-        .chat-window {
-          animation: slide-up 0.3s cubic-bezier(0.34, 1.56, 0.64, 1);
+  const windowPosition: React.CSSProperties =
+    mode === "floating"
+      ? {
+          [side]: offsetX,
+          bottom: `calc(${offsetY} + 4rem)`,
+          width: toCssSize(config.width),
+          height: toCssSize(config.height),
         }
+      : {};
 
-        @keyframes slide-up {
-          from {
-            opacity: 0;
-            transform: translateY(20px) scale(0.95);
-          }
-          to {
-            opacity: 1;
-            transform: translateY(0) scale(1);
-          }
-        }
+  const handleClear = () => {
+    clearChat();
+    userConfig?.handleClearChat?.();
+  };
 
-        .welcome-bubble {
-          animation: bounce-in 0.6s cubic-bezier(0.34, 1.56, 0.64, 1);
-        }
+  const sortedThreads = [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
 
-        @keyframes bounce-in {
-          0% {
-            opacity: 0;
-            transform: translateX(60px) scale(0.8);
-          }
-          60% {
-            transform: translateX(-5px) scale(1.05);
-          }
-          100% {
-            opacity: 1;
-            transform: translateX(0) scale(1);
-          }
-        }
+  const handleNewThread = () => {
+    createThread();
+    setShowThreadList(false);
+  };
 
-        .error-message {
-          animation: shake 0.5s ease-in-out;
-        }
+  const handleSwitchThread = (id: string) => {
+    switchThread(id);
+    setShowThreadList(false);
+  };
 
-        @keyframes shake {
-          0%, 100% { transform: translateX(0); }
-          25% { transform: translateX(-2px); }
-          75% { transform: translateX(2px); }
-        }
+  const startRenaming = (id: string, title: string) => {
+    setEditingThreadId(id);
+    setThreadTitle(title);
+  };
 
-        .message-bubble p {
-          margin: 0;
-        }
+  const finishRenaming = () => {
+    if (editingThreadId) {
+      renameThread(editingThreadId, threadTitle);
+    }
+    setEditingThreadId(null);
+  };
 
-        .message-bubble p+p {
-          margin-top: 0.5rem;
-        }
+  const lastAssistantId = [...messages]
+    .reverse()
+    .find((m) => m.role === "assistant")?.id;
 
-        .message-bubble code {
-          background-color: rgba(0, 0, 0, 0.1);
-          padding: 0.125rem 0.25rem;
-          border-radius: 0.25rem;
-          font-size: 0.8125rem;
-        }
+  const canRetry = (message: Message) =>
+    !loading &&
+    message.id === messages[messages.length - 1]?.id &&
+    !NON_RETRYABLE_ERRORS.includes(message.errorCode ?? "unknown") &&
+    messages.some((m) => m.role === "user");
 
-        .message-bubble pre {
-          background-color: rgba(0, 0, 0, 0.1);
-          padding: 0.5rem;
-          border-radius: 0.375rem;
-          overflow-x: auto;
-          margin: 0.5rem 0;
-        }
+  const handleCopy = async (message: Message) => {
+    try {
+      await navigator.clipboard.writeText(message.content);
+      setCopiedMessageId(message.id);
+      setTimeout(() => setCopiedMessageId(null), 1500);
+    } catch (error) {
+      console.error("Erro ao copiar mensagem:", error);
+    }
+  };
 
-        .message-bubble pre code {
-          background: none;
-          padding: 0;
-        }
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+  };
 
-        .message-bubble ul,
-        .message-bubble ol {
-          margin: 0.5rem 0;
-          padding-left: 1.5rem;
-        }
+  const submitEdit = () => {
+    if (editingMessageId && editText.trim()) {
+      editMessage(editingMessageId, editText);
+    }
+    setEditingMessageId(null);
+  };
 
-        .message-bubble li {
-          margin: 0.25rem 0;
-        }
+  const rateUp = (message: Message) => {
+    rateMessage(message.id, "up");
+    setFeedbackMessageId(null);
+  };
 
-        .chat-messages {
-          scrollbar-width: thin;
-        }
+  // O 👎 só é registrado depois do comentário (ou de "Pular").
+  const startNegativeFeedback = (message: Message) => {
+    setFeedbackMessageId(message.id);
+    setFeedbackComment("");
+  };
 
-        .chat-messages::-webkit-scrollbar {
-          width: 8px;
-        }
+  const submitNegativeFeedback = (comment?: string) => {
+    if (feedbackMessageId) {
+      rateMessage(feedbackMessageId, "down", comment);
+    }
+    setFeedbackMessageId(null);
+  };
 
-        .chat-messages::-webkit-scrollbar-track {
-          background: transparent;
-        }
+  const renderMessageActions = (message: Message) => (
+    <MessageActions
+      message={message}
+      strings={strings}
+      showFeedback={config.showFeedback}
+      copied={copiedMessageId === message.id}
+      canEdit={message.role === "user" && !loading}
+      canRegenerate={message.id === lastAssistantId && !loading}
+      onRateUp={rateUp}
+      onRateDown={startNegativeFeedback}
+      onCopy={handleCopy}
+      onEdit={startEditing}
+      onRegenerate={regenerate}
+      onDelete={deleteMessage}
+    />
+  );
 
-        .chat-messages::-webkit-scrollbar-thumb {
-          background: rgba(255, 255, 255, 0.2);
-          border-radius: 10px;
-          border: 2px solid transparent;
-          background-clip: content-box;
-        }
-      `}</style>
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
 
+  const defaultLauncher = (
+    <>
       <button
         onClick={handleOpen}
-        className="fixed bottom-8 right-8 w-16 h-16 rounded-full border-0 cursor-pointer flex items-center justify-center p-0 transition-all duration-300 ease-in-out z-50 shadow-[0_4px_20px_rgba(0,0,0,0.15)] hover:scale-105 hover:shadow-[0_6px_25px_rgba(0,0,0,0.2)]"
+        className="cb-launcher"
         style={{
-          backgroundColor: config.primaryColor,
+          [side]: offsetX,
+          bottom: offsetY,
         }}
-        aria-label="Abrir chat"
+        aria-label={strings.openChat}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? windowId : undefined}
+        aria-keyshortcuts={config.openShortcut || undefined}
       >
-        <div className="relative">
-          <img src={avatar} alt="Chatbot" className="w-12 h-12 rounded-full object-cover" />
-          {showWelcome && (
-            <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center border-2 border-white">
-              1
-            </span>
-          )}
+        <div className="cb-launcher-inner">
+          <img src={avatar} alt={strings.avatarAlt} className="cb-launcher-avatar" />
+          {showWelcome && <span className="cb-badge">1</span>}
         </div>
       </button>
 
       {showWelcome && !isOpen && (
-        <div
-          className="welcome-bubble fixed bottom-20 right-24 max-w-[20rem] p-4 rounded-2xl rounded-bl-2 cursor-pointer transition-all duration-200 z-50 shadow-[0_4px_16px_rgba(0,0,0,0.1)] hover:shadow-[0_6px_20px_rgba(0,0,0,0.15)]"
+        <button
+          type="button"
+          className="cb-welcome-bubble"
           style={{
-            backgroundColor: config.botBubble,
-            color: config.botText,
-            borderBottomLeftRadius: '0.5rem',
+            [side]: `calc(${offsetX} + 4rem)`,
+            bottom: `calc(${offsetY} + 3rem)`,
           }}
           onClick={handleOpen}
         >
-          <div className="text-sm leading-6">{config.welcomeBubble}</div>
-        </div>
+          {config.welcomeBubble}
+        </button>
       )}
+    </>
+  );
 
-      {isOpen && (
-        <div
-          className="chat-window fixed bottom-24 right-8 w-80 h-96 rounded-lg flex flex-col overflow-hidden z-50 shadow-[0_10px_40px_rgba(0,0,0,0.2)] max-w-[90vw] max-h-[80vh]"
-          style={{
-            backgroundColor: config.backgroundColor,
-          }}
+  const defaultHeader = (
+    <div className="cb-header">
+      {handoffState.agent ? (
+        <AgentAvatar agent={handoffState.agent} fallbackName={strings.agentLabel} />
+      ) : (
+        <img src={avatar} alt={strings.avatarAlt} className="cb-avatar" />
+      )}
+      <span className="cb-header-title">{handoffState.agent?.name ?? config.chatbotName}</span>
+
+      {handoffState.status !== "idle" && (
+        <button onClick={endHandoff} className="cb-button cb-button-small cb-button-ghost">
+          {strings.endHandoff}
+        </button>
+      )}
+
+      {config.showThreads && (
+        <button
+          onClick={() => setShowThreadList((open) => !open)}
+          className="cb-icon-button"
+          aria-label={strings.threads}
+          aria-expanded={showThreadList}
+          title={strings.threads}
         >
-          <div
-            className="py-3 px-4 flex items-center gap-3 text-white font-medium border-b border-white/10"
-            style={{
-              backgroundColor: config.headerColor,
-            }}
+          <svg
+            className="cb-icon"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
           >
-            <img src={avatar} alt="Bot" className="w-8 h-8 rounded-full object-cover" />
-            <span className="flex-1 text-lg">{config.chatbotName}</span>
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M17 8h2a2 2 0 012 2v6a2 2 0 01-2 2h-2v4l-4-4H9a1.994 1.994 0 01-1.414-.586m0 0L11 14h4a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2v4l.586-.586z"
+            />
+          </svg>
+        </button>
+      )}
+
+      {config.showClearButton && messages.length > 0 && (
+        <button
+          onClick={handleClear}
+          className="cb-icon-button"
+          aria-label={strings.clearChat}
+          title={strings.clearChat}
+        >
+          <svg
+            className="cb-icon"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+            />
+          </svg>
+        </button>
+      )}
+
+      {config.showExport && (
+        <div className="cb-menu-anchor">
+          <button
+            onClick={() => setShowExportMenu((open) => !open)}
+            className="cb-icon-button"
+            aria-label={strings.exportChat}
+            aria-haspopup="menu"
+            aria-expanded={showExportMenu}
+            title={strings.exportChat}
+          >
+            <svg
+              className="cb-icon"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+              />
+            </svg>
+          </button>
 
-            {config.showClearButton && messages.length > 0 && (
+          {showExportMenu && (
+            <div
+              className="cb-menu"
+              role="menu"
+              onKeyDown={(e) => {
+                if (e.key === "Escape") {
+                  e.stopPropagation();
+                  setShowExportMenu(false);
+                }
+              }}
+            >
+              {(
+                [
+                  ["markdown", strings.exportMarkdown],
+                  ["json", strings.exportJson],
+                  ["html", strings.exportHtml],
+                ] as const
+              ).map(([format, label]) => (
+                <button
+                  key={format}
+                  role="menuitem"
+                  className="cb-menu-item"
+                  disabled={messages.length === 0}
+                  onClick={() => {
+                    setShowExportMenu(false);
+                    downloadTranscript(format, { assistant: config.chatbotName }).catch((error) =>
+                      console.error("Erro ao exportar conversa:", error),
+                    );
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
               <button
-                onClick={handleClear}
-                className="text-gray-400 bg-transparent border-0 cursor-pointer transition-all duration-200 p-1 rounded flex items-center justify-center hover:text-white hover:bg-white/10"
-                aria-label="Limpar chat"
-                title="Limpar conversa"
+                role="menuitem"
+                className="cb-menu-item"
+                onClick={() => {
+                  setShowExportMenu(false);
+                  transcriptInputRef.current?.click();
+                }}
               >
-                <svg
-                  className="w-4 h-4"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                  />
-                </svg>
+                {strings.importChat}
+              </button>
+            </div>
+          )}
+
+          <input
+            ref={transcriptInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="cb-hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importTranscript(file);
+            }}
+          />
+        </div>
+      )}
+
+      {mode !== "inline" && (
+        <button
+          onClick={handleClose}
+          className="cb-close-button"
+          aria-label={strings.closeChat}
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+
+  const renderDefaultMessage = (message: Message) => (
+    <>
+      {message.role === "user" ? (
+        editingMessageId === message.id ? (
+          <div className="cb-edit">
+            <textarea
+              autoFocus
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === "Escape") {
+                  // Cancela só a edição, sem fechar a janela.
+                  e.stopPropagation();
+                  setEditingMessageId(null);
+                }
+              }}
+              className="cb-edit-textarea"
+              rows={3}
+              aria-label={strings.editMessage}
+            />
+            <div className="cb-edit-actions">
+              <button
+                onClick={() => setEditingMessageId(null)}
+                className="cb-button cb-button-small cb-button-ghost"
+              >
+                {strings.cancel}
+              </button>
+              <button
+                onClick={submitEdit}
+                className="cb-button cb-button-small"
+              >
+                {strings.send}
               </button>
+            </div>
+          </div>
+        ) : (
+          <div className="cb-row cb-row-user">
+            {!message.handoff && renderMessageActions(message)}
+            <div className="cb-bubble cb-bubble-user">
+              {message.attachments?.length ? (
+                <AttachmentPreviews attachments={message.attachments} />
+              ) : null}
+              <MessageMarkdown>{message.content}</MessageMarkdown>
+            </div>
+          </div>
+        )
+      ) : message.role === "assistant" ? (
+        <>
+          <div className="cb-row">
+            <img src={avatar} alt={strings.avatarAlt} className="cb-avatar" />
+            <div className="cb-bubble cb-bubble-bot">
+              <MessageMarkdown components={citationComponents}>
+                {linkCitations(message.content, message.sources)}
+              </MessageMarkdown>
+              {message.sources?.length ? (
+                <div className="cb-sources">
+                  {strings.sources}
+                  <ol>
+                    {message.sources.map((source) => (
+                      <li key={source.index}>
+                        [{source.index}]{" "}
+                        {source.url ? (
+                          <a href={source.url} target="_blank" rel="noopener noreferrer">
+                            {source.title}
+                          </a>
+                        ) : (
+                          source.title
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ) : null}
+            </div>
+            {renderMessageActions(message)}
+          </div>
+          {feedbackMessageId === message.id && (
+            <div className="cb-feedback-form">
+              <textarea
+                autoFocus
+                value={feedbackComment}
+                onChange={(e) => setFeedbackComment(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    submitNegativeFeedback(feedbackComment);
+                  }
+                  if (e.key === "Escape") {
+                    e.stopPropagation();
+                    setFeedbackMessageId(null);
+                  }
+                }}
+                className="cb-feedback-textarea"
+                placeholder={strings.feedbackPrompt}
+                aria-label={strings.feedbackPrompt}
+                rows={2}
+              />
+              <div className="cb-edit-actions">
+                <button
+                  onClick={() => submitNegativeFeedback()}
+                  className="cb-button cb-button-small cb-button-ghost"
+                >
+                  {strings.skip}
+                </button>
+                <button
+                  onClick={() => submitNegativeFeedback(feedbackComment)}
+                  className="cb-button cb-button-small"
+                >
+                  {strings.send}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      ) : message.role === "agent" ? (
+        <div className="cb-row">
+          <AgentAvatar agent={message.agent} fallbackName={strings.agentLabel} />
+          <div className="cb-bubble cb-bubble-bot">
+            <div className="cb-agent-name">{message.agent?.name ?? strings.agentLabel}</div>
+            <MessageMarkdown>{message.content}</MessageMarkdown>
+          </div>
+        </div>
+      ) : message.role === "system" && message.handoff ? (
+        <div className="cb-notice">{message.content}</div>
+      ) : message.role === "error" ? (
+        <div className="cb-row">
+          <div className="cb-error-avatar">
+            <ErrorIcon />
+          </div>
+          <div className="cb-bubble cb-bubble-error" role="alert">
+            <div className="cb-error-body">
+              <div className="cb-error-title">
+                <ErrorIcon />
+                <div>{strings.error}</div>
+              </div>
+              <div>
+                <MessageMarkdown>
+                  {message.errorCode
+                    ? formatMessage(
+                        strings.errors[message.errorCode] ?? strings.errors.unknown,
+                        message.errorParams,
+                      )
+                    : message.content}
+                </MessageMarkdown>
+              </div>
+              {canRetry(message) && (
+                <button
+                  onClick={regenerate}
+                  className="cb-retry-button"
+                >
+                  {strings.retry}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : message.role === "tool" && message.tool ? (
+        <div className="cb-tool-activity">
+          <ToolIcon status={message.tool.status} />
+          <span>
+            {formatMessage(
+              message.tool.status === "running"
+                ? strings.toolRunning
+                : message.tool.status === "done"
+                  ? strings.toolDone
+                  : strings.toolFailed,
+              { name: message.tool.name },
             )}
+          </span>
+        </div>
+      ) : null}
+    </>
+  );
+
+  const quotaParts: string[] = [];
+
+  if (usage.remaining.messages !== undefined) {
+    quotaParts.push(formatMessage(strings.remainingMessages, { count: usage.remaining.messages }));
+  }
+
+  if (usage.remaining.tokens !== undefined) {
+    quotaParts.push(
+      formatMessage(strings.remainingTokens, {
+        count: usage.remaining.tokens.toLocaleString(locale ?? DEFAULT_LOCALE),
+      }),
+    );
+  }
+
+  if (usage.remaining.cost !== undefined) {
+    quotaParts.push(
+      formatMessage(strings.remainingBudget, {
+        amount: new Intl.NumberFormat(locale ?? DEFAULT_LOCALE, {
+          style: "currency",
+          currency: config.usageLimits?.currency ?? "USD",
+        }).format(usage.remaining.cost),
+      }),
+    );
+  }
+
+  const defaultInput = (
+    <>
+      {usage.blockedBy && isBlocked ? (
+        <div className="cb-quota cb-quota-blocked" role="status">
+          {formatMessage(strings.errors[usage.blockedBy.code], usage.blockedBy.params)}
+        </div>
+      ) : (
+        quotaParts.length > 0 && <div className="cb-quota">{quotaParts.join(" · ")}</div>
+      )}
 
+      {(pendingAttachments.length > 0 || attachmentError) && (
+        <div className="cb-pending">
+          <div className="cb-pending-list">
+            {pendingAttachments.map((attachment) => (
+              <div key={attachment.id} className="cb-pending-item">
+                {attachment.kind === "image" ? (
+                  <img
+                    src={attachment.data}
+                    alt={attachment.name}
+                    className="cb-pending-thumb"
+                  />
+                ) : (
+                  <span>📄</span>
+                )}
+                <span className="cb-pending-name">{attachment.name}</span>
+                <button
+                  onClick={() => removeAttachment(attachment.id)}
+                  className="cb-remove-button"
+                  aria-label={formatMessage(strings.removeAttachment, {
+                    name: attachment.name,
+                  })}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          {attachmentError && (
+            <div className="cb-attachment-error">{attachmentError}</div>
+          )}
+        </div>
+      )}
+
+      <div className="cb-composer">
+        {config.allowAttachments && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={config.acceptedFileTypes?.join(",")}
+              className="cb-hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
             <button
-              onClick={handleClose}
-              className="text-gray-400 bg-transparent border-0 cursor-pointer text-2xl font-bold leading-none transition-colors duration-200 hover:text-white"
-              aria-label="Fechar chat"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading}
+              className="cb-icon-button"
+              aria-label={strings.attachFile}
+              title={strings.attachFile}
             >
-              ×
+              <svg
+                className="cb-icon-lg"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+                />
+              </svg>
             </button>
-          </div>
+          </>
+        )}
+        <input
+          ref={inputRef}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyPress}
+          onPaste={handlePaste}
+          placeholder={strings.inputPlaceholder}
+          disabled={loading || isBlocked}
+          className="cb-input"
+        />
+        <button
+          onClick={loading ? abortChatMessage : handleSend}
+          disabled={!loading && isBlocked}
+          className="cb-button"
+        >
+          {loading ? strings.cancel : strings.send}
+        </button>
+      </div>
+    </>
+  );
+
+  return (
+    <div
+      className={`cb-root cb-mode-${mode}`}
+      style={themeToCssVariables(resolvedTheme) as React.CSSProperties}
+    >
+      <style>{chatbotStyles}</style>
+
+      <div className="cb-sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+
+      {mode !== "inline" &&
+        (renderLauncher
+          ? renderLauncher({ open: handleOpen, isOpen, showWelcome, chat, defaultContent: defaultLauncher })
+          : defaultLauncher)}
+
+      {isOpen && (
+        <div
+          ref={windowRef}
+          id={windowId}
+          className={windowClassName}
+          style={windowPosition}
+          role={mode === "inline" ? "region" : "dialog"}
+          aria-modal={mode === "inline" ? undefined : true}
+          aria-label={config.chatbotName ?? strings.chatbotName}
+          onKeyDown={handleWindowKeyDown}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
+          {renderHeader
+            ? renderHeader({
+                chatbotName: config.chatbotName ?? strings.chatbotName,
+                avatar,
+                close: handleClose,
+                clear: handleClear,
+                toggleThreads: () => setShowThreadList((open) => !open),
+                chat,
+                defaultContent: defaultHeader,
+              })
+            : defaultHeader}
+
+          {showThreadList && (
+            <div className="cb-threads">
+              <button onClick={handleNewThread} className="cb-button">
+                + {strings.newThread}
+              </button>
+
+              {sortedThreads.map((thread) => (
+                <div
+                  key={thread.id}
+                  className={`cb-thread${thread.id === activeThreadId ? " cb-thread-active" : ""}`}
+                >
+                  {editingThreadId === thread.id ? (
+                    <input
+                      autoFocus
+                      value={threadTitle}
+                      onChange={(e) => setThreadTitle(e.target.value)}
+                      onBlur={finishRenaming}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") finishRenaming();
+                        if (e.key === "Escape") {
+                          e.stopPropagation();
+                          setEditingThreadId(null);
+                        }
+                      }}
+                      className="cb-thread-input"
+                      aria-label={strings.threadName}
+                    />
+                  ) : (
+                    <button
+                      onClick={() => handleSwitchThread(thread.id)}
+                      className="cb-thread-button"
+                      aria-current={thread.id === activeThreadId}
+                    >
+                      <div className="cb-thread-title">
+                        {thread.title || strings.newThread}
+                      </div>
+                      <div className="cb-thread-date">
+                        {new Date(thread.updatedAt).toLocaleString()}
+                      </div>
+                    </button>
+                  )}
+
+                  <button
+                    onClick={() => startRenaming(thread.id, thread.title)}
+                    className="cb-icon-button"
+                    aria-label={formatMessage(strings.renameThread, {
+                      title: thread.title || strings.newThread,
+                    })}
+                    title={strings.rename}
+                  >
+                    <svg
+                      className="cb-icon"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536A2 2 0 0111.121 17H9v-2.121A2 2 0 019.586 13.586z"
+                      />
+                    </svg>
+                  </button>
+
+                  <button
+                    onClick={() => deleteThread(thread.id)}
+                    className="cb-icon-button"
+                    aria-label={formatMessage(strings.deleteThread, {
+                      title: thread.title || strings.newThread,
+                    })}
+                    title={strings.delete}
+                  >
+                    <svg
+                      className="cb-icon"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                      />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
 
           <div
-            className="chat-messages flex-1 p-3 overflow-y-auto flex flex-col gap-3"
-            style={{ backgroundColor: config.backgroundColor }}
+            ref={messagesRef}
+            className={`cb-messages${showThreadList ? " cb-hidden" : ""}`}
+            role="log"
+            aria-live="off"
+            aria-busy={loading}
           >
             {firstMessageShown &&
               config.firstBotMessage &&
               messages.length === 0 && (
-                <div className="flex gap-3 items-start">
-                  <img
-                    src={avatar}
-                    alt="Bot"
-                    className="w-8 h-8 rounded-full shrink-0 object-cover"
-                  />
-                  <div
-                    className="message-bubble max-w-[75%] p-3 rounded-2xl text-sm leading-6 rounded-bl-[0.375rem]"
-                    style={{
-                      backgroundColor: config.botBubble,
-                      color: config.botText,
-                    }}
-                  >
+                <div className="cb-row">
+                  <img src={avatar} alt={strings.avatarAlt} className="cb-avatar" />
+                  <div className="cb-bubble cb-bubble-bot">
                     <Markdown>{config.firstBotMessage}</Markdown>
                   </div>
                 </div>
               )}
 
-            {messages.map((message: Message, index: number) => (
-              <div key={index}>
-                {message.role === "user" ? (
-                  <div className="flex gap-3 justify-end">
-                    <div
-                      className="message-bubble max-w-[75%] p-3 rounded-2xl text-sm leading-6 rounded-br-[0.375rem]"
-                      style={{
-                        backgroundColor: config.userBubble,
-                        color: config.userText,
-                      }}
-                    >
-                      <Markdown>{message.content}</Markdown>
-                    </div>
-                  </div>
-                ) : message.role === "assistant" ? (
-                  <div className="flex gap-3 items-start">
-                    <img
-                      src={avatar}
-                      alt="Bot"
-                      className="w-8 h-8 rounded-full shrink-0 object-cover"
-                    />
-                    <div
-                      className="message-bubble max-w-[75%] p-3 rounded-2xl text-sm leading-6 rounded-bl-[0.375rem]"
-                      style={{
-                        backgroundColor: config.botBubble,
-                        color: config.botText,
-                      }}
-                    >
-                      <Markdown>{message.content}</Markdown>
-                    </div>
-                  </div>
-                ) : message.role === "error" ? (
-                  <div className="flex gap-3 items-start">
-                    <div
-                      className="w-8 h-8 rounded-full flex items-center justify-center shrink-0"
-                      style={{
-                        backgroundColor: config.errorText,
-                      }}
-                    >
-                      <ErrorIcon />
-                    </div>
-                    <div
-                      className="error-message message-bubble max-w-[75%] p-3 rounded-2xl text-sm leading-6 border-l-4 rounded-bl-[0.375rem]"
-                      style={{
-                        backgroundColor: config.errorBubble,
-                        color: config.errorText,
-                        borderLeftColor: config.errorText,
-                      }}
-                    >
-                      <div className="flex flex-col items-start">
-                        <div className="flex items-center gap-1">
-                          <ErrorIcon />
-                          <div className="font-semibold">Erro</div>
-                        </div>
-                        <div>
-                          <Markdown>{message.content}</Markdown>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                ) : null}
-              </div>
-            ))}
+            {firstMessageShown && !!config.suggestions?.length && messages.length === 0 && (
+              <SuggestionChips
+                suggestions={config.suggestions}
+                label={strings.suggestions}
+                disabled={loading || isBlocked}
+                onSelect={sendMessage}
+              />
+            )}
+
+            {list.paddingTop > 0 && (
+              <div aria-hidden="true" className="cb-spacer" style={{ height: list.paddingTop }} />
+            )}
+
+            {messages.slice(list.start, list.end).map((message: Message, offset) => {
+              const index = list.start + offset;
+
+              return (
+                <div key={message.id} data-key={message.id} ref={list.measureElement}>
+                  {renderMessage
+                    ? renderMessage(message, {
+                        isLast: index === messages.length - 1,
+                        chat,
+                        defaultContent: renderDefaultMessage(message),
+                      })
+                    : renderDefaultMessage(message)}
+                </div>
+              );
+            })}
+
+            {list.paddingBottom > 0 && (
+              <div aria-hidden="true" className="cb-spacer" style={{ height: list.paddingBottom }} />
+            )}
+
+            {!loading &&
+              handoffState.status === "idle" &&
+              lastMessage?.role === "assistant" &&
+              !!lastMessage.suggestions?.length && (
+                <SuggestionChips
+                  suggestions={lastMessage.suggestions}
+                  label={strings.suggestions}
+                  disabled={loading || isBlocked}
+                  onSelect={sendMessage}
+                />
+              )}
+
+            {loading && (renderTypingIndicator ? renderTypingIndicator() : <TypingIndicator label={strings.typing} />)}
 
-            {loading && <TypingIndicator />}
+            {handoffState.agentTyping &&
+              (renderTypingIndicator ? (
+                renderTypingIndicator()
+              ) : (
+                <TypingIndicator
+                  label={formatMessage(strings.agentTyping, {
+                    name: handoffState.agent?.name ?? strings.agentLabel,
+                  })}
+                />
+              ))}
 
             <div ref={messagesEndRef} />
           </div>
 
-          <div
-            className="flex gap-2 p-3 border-t border-white/10"
-            style={{
-              backgroundColor: config.headerColor,
-            }}
-          >
-            <input
-              ref={inputRef}
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyPress}
-              placeholder="Digite sua mensagem..."
-              disabled={loading}
-              className="flex-1 py-2 px-3 rounded-lg border-0 text-sm outline-none transition-all duration-200 text-white disabled:opacity-50"
-              style={{
-                backgroundColor: config.backgroundColor,
-              }}
-            />
-            <button
-              onClick={loading ? abortChatMessage : handleSend}
-              className="py-2 px-4 rounded-lg border-0 text-white text-sm font-medium cursor-pointer transition-all duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
-              style={{
-                backgroundColor: config.buttonColor,
-              }}
-            >
-              {loading ? "Cancelar" : "Enviar"}
-            </button>
-          </div>
+          {renderInput
+            ? renderInput({
+                value: input,
+                setValue: setInput,
+                send: handleSend,
+                attachments: pendingAttachments,
+                addFiles,
+                removeAttachment,
+                chat,
+                defaultContent: defaultInput,
+              })
+            : defaultInput}
         </div>
       )}
     </div>
@@ -0,0 +1,870 @@
+/**
+ * Estilos do widget. Tudo vem das variáveis `--cb-*` definidas no elemento
+ * raiz, então o componente funciona sem Tailwind e segue o tema escolhido.
+ */
+export const chatbotStyles = `
+.cb-root,
+.cb-root *,
+.cb-root *::before,
+.cb-root *::after {
+  box-sizing: border-box;
+}
+
+.cb-root {
+  position: relative;
+  font-family: var(--cb-font-family);
+  font-size: var(--cb-font-size);
+  line-height: var(--cb-font-line-height);
+  color: var(--cb-color-text);
+}
+
+.cb-root.cb-mode-inline {
+  width: 100%;
+  height: 100%;
+}
+
+.cb-root button,
+.cb-root input,
+.cb-root textarea {
+  font: inherit;
+}
+
+.cb-hidden {
+  display: none !important;
+}
+
+.cb-sr-only {
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  padding: 0;
+  margin: -1px;
+  overflow: hidden;
+  clip: rect(0, 0, 0, 0);
+  white-space: nowrap;
+  border: 0;
+}
+
+.cb-root :focus-visible {
+  outline: 2px solid var(--cb-color-primary);
+  outline-offset: 2px;
+}
+
+.cb-icon {
+  width: 1rem;
+  height: 1rem;
+  flex-shrink: 0;
+}
+
+.cb-icon-xs {
+  width: 0.75rem;
+  height: 0.75rem;
+  flex-shrink: 0;
+}
+
+.cb-icon-sm {
+  width: 0.875rem;
+  height: 0.875rem;
+}
+
+.cb-icon-lg {
+  width: 1.25rem;
+  height: 1.25rem;
+}
+
+.cb-launcher {
+  position: fixed;
+  z-index: 50;
+  width: 4rem;
+  height: 4rem;
+  padding: 0;
+  border: 0;
+  border-radius: 9999px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  cursor: pointer;
+  background-color: var(--cb-color-primary);
+  box-shadow: 0 4px 20px rgba(0, 0, 0, 0.15);
+  transition: transform 0.3s ease-in-out, box-shadow 0.3s ease-in-out;
+}
+
+.cb-launcher:hover {
+  transform: scale(1.05);
+  box-shadow: 0 6px 25px rgba(0, 0, 0, 0.2);
+}
+
+.cb-launcher-inner {
+  position: relative;
+}
+
+.cb-launcher-avatar {
+  display: block;
+  width: 3rem;
+  height: 3rem;
+  border-radius: 9999px;
+  object-fit: cover;
+}
+
+.cb-badge {
+  position: absolute;
+  top: -0.5rem;
+  right: -0.5rem;
+  min-width: 1.25rem;
+  height: 1.25rem;
+  border: 2px solid #ffffff;
+  border-radius: 9999px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background-color: #ef4444;
+  color: #ffffff;
+  font-size: var(--cb-font-small-size);
+  font-weight: 700;
+}
+
+.cb-welcome-bubble {
+  position: fixed;
+  z-index: 50;
+  max-width: 20rem;
+  padding: var(--cb-space-lg);
+  border: 0;
+  border-radius: var(--cb-radius-bubble);
+  border-bottom-left-radius: 0.5rem;
+  cursor: pointer;
+  background-color: var(--cb-color-bot-bubble);
+  color: var(--cb-color-bot-text);
+  text-align: left;
+  box-shadow: 0 4px 16px rgba(0, 0, 0, 0.1);
+  transition: box-shadow 0.2s;
+  animation: cb-bounce-in 0.6s cubic-bezier(0.34, 1.56, 0.64, 1);
+}
+
+.cb-welcome-bubble:hover {
+  box-shadow: 0 6px 20px rgba(0, 0, 0, 0.15);
+}
+
+@keyframes cb-bounce-in {
+  0% {
+    opacity: 0;
+    transform: translateX(60px) scale(0.8);
+  }
+  60% {
+    transform: translateX(-5px) scale(1.05);
+  }
+  100% {
+    opacity: 1;
+    transform: translateX(0) scale(1);
+  }
+}
+
+.cb-window {
+  z-index: 50;
+  display: flex;
+  flex-direction: column;
+  overflow: hidden;
+  background-color: var(--cb-color-background);
+}
+
+.cb-window-floating {
+  position: fixed;
+  max-width: 90vw;
+  max-height: 80vh;
+  border-radius: var(--cb-radius-window);
+  box-shadow: var(--cb-shadow);
+  animation: cb-slide-up 0.3s cubic-bezier(0.34, 1.56, 0.64, 1);
+}
+
+.cb-window-fullscreen {
+  position: fixed;
+  inset: 0;
+  animation: cb-slide-up 0.3s cubic-bezier(0.34, 1.56, 0.64, 1);
+}
+
+.cb-window-inline {
+  position: relative;
+  width: 100%;
+  height: 100%;
+  border-radius: var(--cb-radius-window);
+}
+
+.cb-window.cb-dragging {
+  outline: 2px dashed var(--cb-color-primary);
+}
+
+@keyframes cb-slide-up {
+  from {
+    opacity: 0;
+    transform: translateY(20px) scale(0.95);
+  }
+  to {
+    opacity: 1;
+    transform: translateY(0) scale(1);
+  }
+}
+
+.cb-header {
+  display: flex;
+  align-items: center;
+  gap: var(--cb-space-md);
+  padding: var(--cb-space-md) var(--cb-space-lg);
+  border-bottom: 1px solid var(--cb-color-border);
+  background-color: var(--cb-color-surface);
+  color: var(--cb-color-text);
+  font-weight: 500;
+}
+
+.cb-header-title {
+  flex: 1;
+  font-size: 1.125rem;
+}
+
+.cb-avatar {
+  width: 2rem;
+  height: 2rem;
+  border-radius: 9999px;
+  object-fit: cover;
+  flex-shrink: 0;
+}
+
+.cb-icon-button {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: var(--cb-space-xs);
+  border: 0;
+  border-radius: 0.25rem;
+  background: transparent;
+  color: var(--cb-color-muted-text);
+  cursor: pointer;
+  transition: color 0.2s, background-color 0.2s;
+}
+
+.cb-icon-button:hover {
+  color: var(--cb-color-text);
+  background-color: var(--cb-color-border);
+}
+
+.cb-icon-button:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.cb-menu-anchor {
+  position: relative;
+}
+
+.cb-menu {
+  position: absolute;
+  top: 100%;
+  right: 0;
+  z-index: 10;
+  display: flex;
+  flex-direction: column;
+  min-width: 12rem;
+  margin-top: var(--cb-space-xs);
+  padding: var(--cb-space-xs);
+  border: 1px solid var(--cb-color-border);
+  border-radius: 0.5rem;
+  background-color: var(--cb-color-surface);
+  box-shadow: var(--cb-shadow);
+}
+
+.cb-menu-item {
+  padding: var(--cb-space-sm) var(--cb-space-md);
+  border: 0;
+  border-radius: 0.25rem;
+  background: transparent;
+  color: var(--cb-color-text);
+  font-size: var(--cb-font-small-size);
+  font-weight: 400;
+  text-align: left;
+  cursor: pointer;
+}
+
+.cb-menu-item:hover:not(:disabled) {
+  background-color: var(--cb-color-border);
+}
+
+.cb-menu-item:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.cb-close-button {
+  padding: 0;
+  border: 0;
+  background: transparent;
+  color: var(--cb-color-muted-text);
+  cursor: pointer;
+  font-size: 1.5rem;
+  font-weight: 700;
+  line-height: 1;
+  transition: color 0.2s;
+}
+
+.cb-close-button:hover {
+  color: var(--cb-color-text);
+}
+
+.cb-button {
+  padding: var(--cb-space-sm) var(--cb-space-lg);
+  border: 0;
+  border-radius: var(--cb-radius-button);
+  background-color: var(--cb-color-button);
+  color: var(--cb-color-button-text);
+  font-weight: 500;
+  cursor: pointer;
+  transition: opacity 0.2s;
+}
+
+.cb-button:hover {
+  opacity: 0.9;
+}
+
+.cb-button:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.cb-button-small {
+  padding: var(--cb-space-xs) var(--cb-space-md);
+  font-size: var(--cb-font-small-size);
+}
+
+.cb-button-ghost {
+  background: transparent;
+  color: var(--cb-color-muted-text);
+  font-weight: 400;
+}
+
+.cb-button-ghost:hover {
+  opacity: 1;
+  color: var(--cb-color-text);
+}
+
+.cb-threads {
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+  gap: var(--cb-space-sm);
+  padding: var(--cb-space-md);
+  overflow-y: auto;
+  background-color: var(--cb-color-background);
+}
+
+.cb-thread {
+  display: flex;
+  align-items: center;
+  gap: var(--cb-space-xs);
+  padding: var(--cb-space-sm);
+  border: 1px solid var(--cb-color-border);
+  border-radius: var(--cb-radius-button);
+}
+
+.cb-thread-active {
+  background-color: var(--cb-color-surface);
+}
+
+.cb-thread-button {
+  flex: 1;
+  min-width: 0;
+  padding: 0;
+  border: 0;
+  background: transparent;
+  color: inherit;
+  text-align: left;
+  cursor: pointer;
+}
+
+.cb-thread-title {
+  overflow: hidden;
+  white-space: nowrap;
+  text-overflow: ellipsis;
+  color: var(--cb-color-text);
+}
+
+.cb-thread-date {
+  font-size: var(--cb-font-small-size);
+  color: var(--cb-color-muted-text);
+}
+
+.cb-thread-input {
+  flex: 1;
+  min-width: 0;
+  padding: var(--cb-space-xs) var(--cb-space-sm);
+  border: 0;
+  border-radius: 0.25rem;
+  outline: none;
+  background-color: var(--cb-color-input-background);
+  color: var(--cb-color-input-text);
+}
+
+.cb-messages {
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+  gap: var(--cb-space-md);
+  padding: var(--cb-space-md);
+  overflow-y: auto;
+  background-color: var(--cb-color-background);
+  scrollbar-width: thin;
+}
+
+.cb-spacer {
+  flex-shrink: 0;
+}
+
+.cb-messages::-webkit-scrollbar {
+  width: 8px;
+}
+
+.cb-messages::-webkit-scrollbar-track {
+  background: transparent;
+}
+
+.cb-messages::-webkit-scrollbar-thumb {
+  background: var(--cb-color-border);
+  border-radius: 10px;
+  border: 2px solid transparent;
+  background-clip: content-box;
+}
+
+.cb-row {
+  display: flex;
+  align-items: flex-start;
+  gap: var(--cb-space-md);
+}
+
+.cb-row-user {
+  justify-content: flex-end;
+  gap: var(--cb-space-xs);
+}
+
+.cb-bubble {
+  max-width: 75%;
+  padding: var(--cb-space-md);
+  border-radius: var(--cb-radius-bubble);
+  overflow-wrap: anywhere;
+}
+
+.cb-bubble-bot {
+  background-color: var(--cb-color-bot-bubble);
+  color: var(--cb-color-bot-text);
+  border-bottom-left-radius: 0.375rem;
+}
+
+.cb-sources {
+  margin-top: var(--cb-space-sm);
+  padding-top: var(--cb-space-sm);
+  border-top: 1px solid currentColor;
+  border-top-color: color-mix(in srgb, currentColor 20%, transparent);
+  font-size: var(--cb-font-small-size);
+}
+
+.cb-sources ol {
+  margin: var(--cb-space-xs) 0 0;
+  padding: 0;
+  list-style: none;
+}
+
+.cb-sources a,
+.cb-citation {
+  color: inherit;
+  text-decoration: underline;
+  text-underline-offset: 2px;
+}
+
+.cb-citation {
+  font-size: 0.75em;
+  vertical-align: super;
+  text-decoration: none;
+}
+
+.cb-bubble-user {
+  background-color: var(--cb-color-user-bubble);
+  color: var(--cb-color-user-text);
+  border-bottom-right-radius: 0.375rem;
+}
+
+.cb-bubble-error {
+  background-color: var(--cb-color-error-bubble);
+  color: var(--cb-color-error-text);
+  border-left: 4px solid var(--cb-color-error-text);
+  border-bottom-left-radius: 0.375rem;
+  animation: cb-shake 0.5s ease-in-out;
+}
+
+@keyframes cb-shake {
+  0%, 100% { transform: translateX(0); }
+  25% { transform: translateX(-2px); }
+  75% { transform: translateX(2px); }
+}
+
+.cb-bubble p {
+  margin: 0;
+}
+
+.cb-bubble p + p {
+  margin-top: var(--cb-space-sm);
+}
+
+.cb-bubble code {
+  background-color: rgba(0, 0, 0, 0.1);
+  padding: 0.125rem 0.25rem;
+  border-radius: 0.25rem;
+  font-size: 0.8125rem;
+}
+
+.cb-bubble pre {
+  background-color: rgba(0, 0, 0, 0.1);
+  padding: var(--cb-space-sm);
+  border-radius: 0.375rem;
+  overflow-x: auto;
+  margin: var(--cb-space-sm) 0;
+}
+
+.cb-bubble pre code {
+  background: none;
+  padding: 0;
+}
+
+.cb-bubble ul,
+.cb-bubble ol {
+  margin: var(--cb-space-sm) 0;
+  padding-left: 1.5rem;
+}
+
+.cb-bubble li {
+  margin: var(--cb-space-xs) 0;
+}
+
+.cb-error-avatar {
+  width: 2rem;
+  height: 2rem;
+  border-radius: 9999px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  flex-shrink: 0;
+  background-color: var(--cb-color-error-text);
+  color: var(--cb-color-error-bubble);
+}
+
+.cb-error-body {
+  display: flex;
+  flex-direction: column;
+  align-items: flex-start;
+}
+
+.cb-error-title {
+  display: flex;
+  align-items: center;
+  gap: var(--cb-space-xs);
+  font-weight: 600;
+}
+
+.cb-retry-button {
+  margin-top: var(--cb-space-sm);
+  padding: var(--cb-space-xs) var(--cb-space-md);
+  border: 1px solid var(--cb-color-error-text);
+  border-radius: var(--cb-radius-button);
+  background: transparent;
+  color: var(--cb-color-error-text);
+  font-size: var(--cb-font-small-size);
+  font-weight: 500;
+  cursor: pointer;
+}
+
+.cb-retry-button:hover {
+  opacity: 0.8;
+}
+
+.cb-edit {
+  display: flex;
+  flex-direction: column;
+  align-items: flex-end;
+  gap: var(--cb-space-sm);
+}
+
+.cb-edit-textarea {
+  width: 85%;
+  padding: var(--cb-space-md);
+  border: 0;
+  border-radius: var(--cb-radius-bubble);
+  outline: none;
+  resize: none;
+  background-color: var(--cb-color-user-bubble);
+  color: var(--cb-color-user-text);
+}
+
+.cb-edit-actions {
+  display: flex;
+  gap: var(--cb-space-sm);
+}
+
+.cb-message-actions {
+  display: flex;
+  align-items: center;
+  align-self: center;
+  gap: 0.125rem;
+  opacity: 0;
+  transition: opacity 0.15s ease-in-out;
+}
+
+.cb-row:hover .cb-message-actions,
+.cb-message-actions:focus-within,
+.cb-message-actions.cb-rated {
+  opacity: 1;
+}
+
+.cb-icon-button.cb-selected {
+  color: var(--cb-color-primary);
+}
+
+.cb-feedback-form {
+  display: flex;
+  flex-direction: column;
+  align-items: flex-end;
+  gap: var(--cb-space-sm);
+  margin: var(--cb-space-sm) 0 0 2.75rem;
+}
+
+.cb-feedback-textarea {
+  width: 100%;
+  padding: var(--cb-space-sm) var(--cb-space-md);
+  border: 1px solid var(--cb-color-border);
+  border-radius: var(--cb-radius-input);
+  outline: none;
+  resize: none;
+  background-color: var(--cb-color-input-background);
+  color: var(--cb-color-input-text);
+}
+
+.cb-feedback-textarea::placeholder {
+  color: var(--cb-color-muted-text);
+}
+
+.cb-suggestions {
+  display: flex;
+  flex-wrap: wrap;
+  gap: var(--cb-space-xs);
+  margin: var(--cb-space-sm) 0;
+}
+
+.cb-suggestion {
+  padding: var(--cb-space-xs) var(--cb-space-md);
+  border: 1px solid var(--cb-color-primary);
+  border-radius: 9999px;
+  background: transparent;
+  color: var(--cb-color-text);
+  font-size: var(--cb-font-small-size);
+  cursor: pointer;
+  text-align: left;
+}
+
+.cb-suggestion:hover:not(:disabled) {
+  background-color: var(--cb-color-primary);
+  color: var(--cb-color-button-text);
+}
+
+.cb-suggestion:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.cb-agent-initial {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background-color: var(--cb-color-primary);
+  color: var(--cb-color-button-text);
+  font-weight: 600;
+}
+
+.cb-agent-name {
+  margin-bottom: var(--cb-space-xs);
+  font-size: var(--cb-font-small-size);
+  font-weight: 600;
+}
+
+.cb-notice {
+  margin: var(--cb-space-sm) 0;
+  text-align: center;
+  font-size: var(--cb-font-small-size);
+  color: var(--cb-color-muted-text);
+}
+
+.cb-tool-activity {
+  display: flex;
+  align-items: center;
+  gap: var(--cb-space-sm);
+  margin-left: 2.75rem;
+  font-size: var(--cb-font-small-size);
+  color: var(--cb-color-muted-text);
+}
+
+.cb-spinner {
+  width: 12px;
+  height: 12px;
+  border: 2px solid currentColor;
+  border-right-color: transparent;
+  border-radius: 50%;
+  animation: cb-spin 0.8s linear infinite;
+}
+
+@keyframes cb-spin {
+  to {
+    transform: rotate(360deg);
+  }
+}
+
+.cb-typing {
+  display: flex;
+  align-items: center;
+  gap: var(--cb-space-xs);
+  height: 1.5rem;
+  margin: var(--cb-space-sm) 0 var(--cb-space-sm) 2.5rem;
+}
+
+.cb-typing-dot {
+  width: 8px;
+  height: 8px;
+  border-radius: 50%;
+  opacity: 0.3;
+  background-color: var(--cb-color-muted-text);
+  animation: cb-typing-pulse 1.4s infinite;
+}
+
+@keyframes cb-typing-pulse {
+  0%, 60%, 100% {
+    opacity: 0.3;
+    transform: scale(0.8);
+  }
+  30% {
+    opacity: 1;
+    transform: scale(1);
+  }
+}
+
+.cb-attachments {
+  display: flex;
+  flex-wrap: wrap;
+  gap: var(--cb-space-sm);
+  margin-bottom: var(--cb-space-sm);
+}
+
+.cb-attachment-image {
+  max-width: 100%;
+  max-height: 10rem;
+  border-radius: 0.5rem;
+  object-fit: cover;
+}
+
+.cb-attachment-file {
+  display: inline-flex;
+  align-items: center;
+  gap: var(--cb-space-xs);
+  padding: var(--cb-space-xs) var(--cb-space-sm);
+  border-radius: 0.375rem;
+  background-color: rgba(0, 0, 0, 0.1);
+  font-size: var(--cb-font-small-size);
+}
+
+.cb-pending {
+  display: flex;
+  flex-direction: column;
+  gap: var(--cb-space-xs);
+  padding: var(--cb-space-sm) var(--cb-space-md) 0;
+  border-top: 1px solid var(--cb-color-border);
+  background-color: var(--cb-color-surface);
+}
+
+.cb-pending-list {
+  display: flex;
+  flex-wrap: wrap;
+  gap: var(--cb-space-sm);
+}
+
+.cb-pending-item {
+  display: flex;
+  align-items: center;
+  gap: var(--cb-space-xs);
+  padding: var(--cb-space-xs) var(--cb-space-sm);
+  border-radius: 0.375rem;
+  background-color: var(--cb-color-border);
+  color: var(--cb-color-text);
+  font-size: var(--cb-font-small-size);
+}
+
+.cb-pending-thumb {
+  width: 2rem;
+  height: 2rem;
+  border-radius: 0.25rem;
+  object-fit: cover;
+}
+
+.cb-pending-name {
+  max-width: 6rem;
+  overflow: hidden;
+  white-space: nowrap;
+  text-overflow: ellipsis;
+}
+
+.cb-remove-button {
+  padding: 0;
+  border: 0;
+  background: transparent;
+  color: var(--cb-color-muted-text);
+  line-height: 1;
+  cursor: pointer;
+}
+
+.cb-remove-button:hover {
+  color: var(--cb-color-text);
+}
+
+.cb-attachment-error {
+  font-size: var(--cb-font-small-size);
+  color: var(--cb-color-danger);
+}
+
+.cb-quota {
+  padding: var(--cb-space-xs) var(--cb-space-md);
+  border-top: 1px solid var(--cb-color-border);
+  background-color: var(--cb-color-surface);
+  color: var(--cb-color-muted-text);
+  font-size: var(--cb-font-small-size);
+}
+
+.cb-quota-blocked {
+  color: var(--cb-color-danger);
+}
+
+.cb-composer {
+  display: flex;
+  gap: var(--cb-space-sm);
+  padding: var(--cb-space-md);
+  border-top: 1px solid var(--cb-color-border);
+  background-color: var(--cb-color-surface);
+}
+
+.cb-input {
+  flex: 1;
+  min-width: 0;
+  padding: var(--cb-space-sm) var(--cb-space-md);
+  border: 0;
+  border-radius: var(--cb-radius-input);
+  outline: none;
+  background-color: var(--cb-color-input-background);
+  color: var(--cb-color-input-text);
+}
+
+.cb-input::placeholder {
+  color: var(--cb-color-muted-text);
+}
+
+.cb-input:disabled {
+  opacity: 0.5;
+}
+`;
@@ -0,0 +1,35 @@
+import { createContext, useContext, useEffect } from "react";
+import type { ReactNode } from "react";
+import { useChatbot } from "../../hooks/useChatbot";
+import type { ChatbotState, UseChatbotOptions } from "../../hooks/useChatbot";
+
+const ChatbotContext = createContext<ChatbotState | null>(null);
+
+export type ChatbotProviderProps = UseChatbotOptions & {
+  children?: ReactNode;
+};
+
+/**
+ * Modo headless: guarda streaming, histórico e conversas para uma UI
+ * própria, que lê o estado com `useChatbotContext`.
+ */
+export function ChatbotProvider({ children, ...options }: ChatbotProviderProps) {
+  const chat = useChatbot(options);
+  const { init } = chat;
+
+  useEffect(() => {
+    init();
+  }, [init]);
+
+  return <ChatbotContext.Provider value={chat}>{children}</ChatbotContext.Provider>;
+}
+
+export function useChatbotContext(): ChatbotState {
+  const chat = useContext(ChatbotContext);
+
+  if (!chat) {
+    throw new Error("useChatbotContext precisa estar dentro de um <ChatbotProvider>.");
+  }
+
+  return chat;
+}
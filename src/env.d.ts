@@ -1,6 +1,13 @@
 interface ImportMetaEnv {
   readonly VITE_OPENAI_API_KEY?: string;
   readonly VITE_OPENAI_MODEL?: string;
+  readonly VITE_AZURE_OPENAI_API_KEY?: string;
+  readonly VITE_AZURE_OPENAI_ENDPOINT?: string;
+  readonly VITE_AZURE_OPENAI_DEPLOYMENT?: string;
+  readonly VITE_ANTHROPIC_API_KEY?: string;
+  readonly VITE_ANTHROPIC_MODEL?: string;
+  readonly VITE_OLLAMA_BASE_URL?: string;
+  readonly VITE_OLLAMA_MODEL?: string;
 }
 
 interface ImportMeta {
@@ -9,8 +16,17 @@ interface ImportMeta {
 
 declare namespace NodeJS {
   interface ProcessEnv {
+    readonly OPENAI_API_KEY?: string;
+    readonly OPENAI_MODEL?: string;
     readonly REACT_APP_OPENAI_API_KEY?: string;
     readonly REACT_APP_OPENAI_MODEL?: string;
+    readonly REACT_APP_AZURE_OPENAI_API_KEY?: string;
+    readonly REACT_APP_AZURE_OPENAI_ENDPOINT?: string;
+    readonly REACT_APP_AZURE_OPENAI_DEPLOYMENT?: string;
+    readonly REACT_APP_ANTHROPIC_API_KEY?: string;
+    readonly REACT_APP_ANTHROPIC_MODEL?: string;
+    readonly REACT_APP_OLLAMA_BASE_URL?: string;
+    readonly REACT_APP_OLLAMA_MODEL?: string;
   }
 }
 
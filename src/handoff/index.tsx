@@ -0,0 +1,264 @@
+import { ChatbotError, errorFromResponse } from '../provider/errors';
+import type { ChatTool } from '../provider/tools';
+
+export type AgentInfo = {
+  id?: string;
+  name: string;
+  avatar?: string;
+};
+
+/** Quem pediu o atendente: o usuário, o modelo (ferramenta) ou erros seguidos. */
+export type HandoffReason = 'user' | 'tool' | 'errors';
+
+export type TranscriptMessage = {
+  role: 'user' | 'assistant' | 'agent';
+  content: string;
+  timestamp: number;
+};
+
+/** Enviado ao abrir o atendimento, com a conversa até ali. */
+export type HandoffRequest = {
+  reason: HandoffReason;
+  threadId: string | null;
+  transcript: TranscriptMessage[];
+  locale?: string;
+};
+
+/** Eventos do lado do atendente. O formato é o mesmo em qualquer transporte. */
+export type AgentEvent =
+  | { type: 'queued'; position?: number }
+  | { type: 'joined'; agent: AgentInfo }
+  | { type: 'typing'; typing: boolean }
+  | { type: 'message'; text: string; agent?: AgentInfo }
+  | { type: 'closed' };
+
+export type AgentSession = {
+  send: (text: string) => Promise<void>;
+  /** Encerramento pelo usuário. Quando o atendente encerra, chega um evento `closed`. */
+  close: () => Promise<void>;
+};
+
+export type LiveAgentTransport = {
+  connect: (request: HandoffRequest, onEvent: (event: AgentEvent) => void) => Promise<AgentSession>;
+};
+
+export type HandoffOptions = {
+  transport: LiveAgentTransport;
+  /** Frases que pedem um atendente. Comparadas sem acento e sem diferenciar maiúsculas. */
+  triggers?: string[];
+  /** Respostas com erro seguidas que transferem para um atendente. Padrão: 3. `0` desliga. */
+  errorThreshold?: number;
+  /** Oferece ao modelo a ferramenta `transfer_to_human`. Padrão: `true`. */
+  tool?: boolean;
+};
+
+export const DEFAULT_HANDOFF_TRIGGERS = [
+  'falar com atendente',
+  'falar com um atendente',
+  'atendente humano',
+  'falar com uma pessoa',
+  'talk to an agent',
+  'talk to a human',
+  'hablar con un agente',
+  'hablar con una persona',
+];
+
+export const DEFAULT_HANDOFF_ERROR_THRESHOLD = 3;
+
+export const HANDOFF_TOOL_NAME = 'transfer_to_human';
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function matchesHandoffTrigger(text: string, triggers = DEFAULT_HANDOFF_TRIGGERS): boolean {
+  const normalized = normalize(text);
+  return triggers.some((trigger) => normalized.includes(normalize(trigger)));
+}
+
+/** Ferramenta oferecida ao modelo para pedir o atendente por conta própria. */
+export function createHandoffTool(requestHandoff: () => void): ChatTool {
+  return {
+    name: HANDOFF_TOOL_NAME,
+    description:
+      'Transfere a conversa para um atendente humano. Use quando o usuário pedir para falar ' +
+      'com uma pessoa ou quando você não conseguir resolver o problema dele.',
+    parameters: { type: 'object', properties: {} },
+    handler: () => {
+      requestHandoff();
+      return 'Transferência iniciada. Avise o usuário que um atendente vai continuar a conversa.';
+    },
+  };
+}
+
+export type PollingTransportOptions = {
+  /** Base das rotas, ex.: `/api/handoff`. Ver `createMockAgentHandler` para o protocolo. */
+  endpoint: string;
+  /** Intervalo entre consultas, em ms. Padrão: 1500. */
+  interval?: number;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Transporte por HTTP, sem conexão aberta:
+ * - `POST /sessions` com o `HandoffRequest` devolve `{ sessionId }`
+ * - `GET /sessions/:id/events?after=n` devolve `{ events, cursor }`
+ * - `POST /sessions/:id/messages` com `{ text }`
+ * - `DELETE /sessions/:id` quando o usuário encerra
+ */
+export function createPollingTransport(options: PollingTransportOptions): LiveAgentTransport {
+  const { endpoint, interval = 1500, headers } = options;
+
+  async function request(path: string, init: RequestInit = {}) {
+    const res = await fetch(`${endpoint}${path}`, {
+      ...init,
+      headers: { 'content-type': 'application/json', ...headers },
+    });
+
+    if (!res.ok) {
+      throw errorFromResponse(res, `Erro no atendimento humano (${res.status})`);
+    }
+
+    return res.status === 204 ? null : res.json();
+  }
+
+  return {
+    async connect(handoff, onEvent) {
+      let sessionId: string;
+
+      try {
+        ({ sessionId } = await request('/sessions', {
+          method: 'POST',
+          body: JSON.stringify(handoff),
+        }));
+      } catch (error) {
+        throw new ChatbotError('handoff_unavailable', 'Não foi possível iniciar o atendimento humano', {
+          cause: error,
+        });
+      }
+
+      const base = `/sessions/${encodeURIComponent(sessionId)}`;
+      let cursor = 0;
+      let active = true;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      async function poll() {
+        try {
+          const data = await request(`${base}/events?after=${cursor}`);
+          cursor = data.cursor;
+
+          for (const event of data.events as AgentEvent[]) {
+            if (!active) return;
+            if (event.type === 'closed') active = false;
+            onEvent(event);
+          }
+        } catch (error) {
+          // Sessão sumiu no servidor (reinício, expiração): trata como encerrada.
+          if (error instanceof ChatbotError && error.status === 404) {
+            active = false;
+            onEvent({ type: 'closed' });
+            return;
+          }
+
+          console.warn('Erro ao consultar o atendimento humano:', error);
+        }
+
+        if (active) timer = setTimeout(poll, interval);
+      }
+
+      poll();
+
+      return {
+        async send(text) {
+          await request(`${base}/messages`, { method: 'POST', body: JSON.stringify({ text }) });
+        },
+        async close() {
+          active = false;
+          clearTimeout(timer);
+          await request(base, { method: 'DELETE' });
+        },
+      };
+    },
+  };
+}
+
+export type WebSocketTransportOptions = {
+  url: string;
+  protocols?: string | string[];
+};
+
+/**
+ * Transporte por WebSocket. Ao conectar, envia `{ type: "start", ...HandoffRequest }`;
+ * depois `{ type: "message", text }` e `{ type: "close" }`. O servidor
+ * responde com `AgentEvent` em JSON, uma mensagem por evento.
+ */
+export function createWebSocketTransport(options: WebSocketTransportOptions): LiveAgentTransport {
+  return {
+    connect(handoff, onEvent) {
+      return new Promise((resolve, reject) => {
+        const socket = new WebSocket(options.url, options.protocols);
+        let opened = false;
+        let ended = false;
+
+        const end = () => {
+          if (ended) return;
+          ended = true;
+          onEvent({ type: 'closed' });
+        };
+
+        socket.onopen = () => {
+          opened = true;
+          socket.send(JSON.stringify({ type: 'start', ...handoff }));
+
+          resolve({
+            async send(text) {
+              if (socket.readyState !== WebSocket.OPEN) {
+                throw new ChatbotError('network', 'Conexão com o atendimento humano perdida');
+              }
+
+              socket.send(JSON.stringify({ type: 'message', text }));
+            },
+            async close() {
+              ended = true;
+
+              if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: 'close' }));
+              }
+
+              socket.close();
+            },
+          });
+        };
+
+        socket.onmessage = (message) => {
+          try {
+            const event = JSON.parse(message.data) as AgentEvent;
+
+            if (event.type === 'closed') {
+              end();
+            } else if (!ended) {
+              onEvent(event);
+            }
+          } catch (error) {
+            console.warn('Evento inválido do atendimento humano:', error);
+          }
+        };
+
+        socket.onclose = () => {
+          if (opened) {
+            end();
+          } else {
+            reject(
+              new ChatbotError('handoff_unavailable', 'Não foi possível conectar ao atendimento humano')
+            );
+          }
+        };
+      });
+    },
+  };
+}
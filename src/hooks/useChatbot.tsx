@@ -1,132 +1,590 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from "react";
-import { createOpenAIProvider } from "../provider/openaiProvider";
+import { DEFAULT_LOCALE, formatMessage, getErrorMessage, getStrings } from "../i18n";
+import type { ChatbotLocale, ChatbotStringOverrides } from "../i18n";
+import {
+  ChatbotError,
+  compactAttachments,
+  createChatProvider,
+  estimateTokens,
+  toChatbotError,
+} from "../provider";
+import { createDebouncedWriter, createLocalStorageAdapter } from "../storage";
+import type { ChatStorage, ChatThread } from "../storage";
+import {
+  costOf,
+  getUsageStatus,
+  loadLedger,
+  recordTurn,
+  recordUsage,
+  saveLedger,
+} from "../usage";
+import type { PriceTable, UsageLimits, UsageStatus } from "../usage";
+import { loadSystemPrompt, resolvePromptVariables } from "../prompt";
+import { citedSources, createKnowledgeBase, formatKnowledge } from "../knowledge";
+import type { Citation, KnowledgeBase, KnowledgeOptions } from "../knowledge";
+import { generateFollowUps } from "../suggestions";
+import {
+  downloadTranscript as downloadFile,
+  parseTranscript,
+  transcriptToHtml,
+  transcriptToJson,
+  transcriptToMarkdown,
+} from "../transcript";
+import type { TranscriptFormat, TranscriptLabels } from "../transcript";
+import {
+  createHandoffTool,
+  DEFAULT_HANDOFF_ERROR_THRESHOLD,
+  matchesHandoffTrigger,
+} from "../handoff";
+import type {
+  AgentEvent,
+  AgentInfo,
+  AgentSession,
+  HandoffOptions,
+  HandoffReason,
+  TranscriptMessage,
+} from "../handoff";
+import type { PromptVariables, SystemPrompt } from "../prompt";
+import type {
+  Attachment,
+  ChatbotErrorCode,
+  ChatHistoryMessage,
+  ChatProvider,
+  ChatTool,
+  ContextOptions,
+  GenerationParams,
+  ProviderName,
+  ProviderOptions,
+  TokenUsage,
+  ToolActivity,
+} from "../provider";
 
-type Message = {
-  role: "user" | "assistant" | "system" | "error";
+export type Message = {
+  id: string;
+  role: "user" | "assistant" | "system" | "error" | "tool" | "agent";
   content: string;
   timestamp: number;
   error?: boolean;
+  /** Permite traduzir a mensagem de erro de novo se o idioma mudar. */
+  errorCode?: ChatbotErrorCode;
+  errorParams?: Record<string, string | number>;
+  tool?: ToolActivity;
+  attachments?: Attachment[];
+  /** Avaliação do usuário, só em respostas do assistente. */
+  feedback?: MessageFeedback;
+  /** Consumo da resposta (somando rodadas de ferramentas), na última mensagem do assistente do turno. */
+  usage?: TokenUsage;
+  cost?: number;
+  /** Documentos da base de conhecimento citados na resposta. */
+  sources?: Citation[];
+  /** Atendente que escreveu, nas mensagens `agent`. */
+  agent?: AgentInfo;
+  /** Trocada no atendimento humano; fica fora do contexto do modelo. */
+  handoff?: boolean;
+  /** Próximas perguntas sugeridas pelo modelo, na resposta do assistente. */
+  suggestions?: string[];
 };
 
-type ChatbotState = {
+export type HandoffState = {
+  /** `connecting` até o transporte responder; `queued` até um atendente entrar. */
+  status: "idle" | "connecting" | "queued" | "active";
+  reason?: HandoffReason;
+  agent?: AgentInfo;
+  agentTyping: boolean;
+  queuePosition?: number;
+};
+
+const IDLE_HANDOFF: HandoffState = { status: "idle", agentTyping: false };
+
+export type FeedbackRating = "up" | "down";
+
+export type MessageFeedback = {
+  rating: FeedbackRating;
+  comment?: string;
+  timestamp: number;
+};
+
+export type { ChatThread };
+
+export type ChatbotState = {
   messages: Message[];
   loading: boolean;
-  sendMessage: (message: string) => void;
+  sendMessage: (message: string, attachments?: Attachment[]) => void;
   init: () => Promise<void>;
   clearChat: () => void;
   abortChatMessage: () => void;
+  editMessage: (id: string, text: string) => Promise<void>;
+  regenerate: () => Promise<void>;
+  deleteMessage: (id: string) => void;
+  rateMessage: (id: string, rating: FeedbackRating, comment?: string) => void;
+  usage: UsageStatus;
+  handoff: HandoffState;
+  requestHandoff: (reason?: HandoffReason) => Promise<void>;
+  endHandoff: () => void;
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  createThread: () => void;
+  switchThread: (id: string) => void;
+  renameThread: (id: string, title: string) => void;
+  deleteThread: (id: string) => void;
+  /** Conteúdo da conversa ativa no formato pedido. */
+  exportTranscript: (format: TranscriptFormat, labels?: Partial<TranscriptLabels>) => Promise<string>;
+  downloadTranscript: (format: TranscriptFormat, labels?: Partial<TranscriptLabels>) => Promise<void>;
+  /** Abre um JSON exportado como uma nova conversa. Devolve `false` se o arquivo for inválido. */
+  importTranscript: (file: Blob | string) => Promise<boolean>;
 };
 
-const storage = {
-  getMessages(): Message[] {
-    try {
-      return JSON.parse(localStorage.getItem("chatbot_messages_openai") || "[]");
-    } catch {
-      return [];
-    }
-  },
+/** Conversas sem título exibem o texto de "nova conversa" do idioma atual. */
+const DEFAULT_THREAD_TITLE = "";
 
-  saveMessages(messages: Message[]) {
-    localStorage.setItem("chatbot_messages_openai", JSON.stringify(messages));
-  },
+/** Título padrão gravado por versões anteriores, antes da tradução. */
+const LEGACY_DEFAULT_TITLE = "Nova conversa";
 
-  clearMessages() {
-    localStorage.removeItem("chatbot_messages_openai");
-  },
-};
+function logStorageError(error: unknown) {
+  console.error("Erro ao salvar histórico do chatbot:", error);
+}
 
-function getErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    const message = error.message.toLowerCase();
+/**
+ * Usado quando o provider não pôde ser criado (sem chave, sem endpoint):
+ * o erro aparece no chat pelo `init` e a cada envio, em vez de derrubar o componente.
+ */
+function createFailedProvider(error: unknown): ChatProvider {
+  const fail = async (): Promise<never> => {
+    throw error;
+  };
 
-    if (message.includes("api key") || message.includes("api_key")) {
-      return "Chave de API da OpenAI inválida. Verifique sua OPENAI_API_KEY no arquivo .env";
-    }
+  return { init: fail, prompt: fail };
+}
 
-    if (message.includes("quota") || message.includes("insufficient_quota")) {
-      return "Cota de uso da OpenAI foi excedida. Verifique seu plano ou adicione créditos.";
-    }
+function createId(): string {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
 
-    if (message.includes("rate")) {
-      return "Muitas requisições. Aguarde um momento antes de tentar novamente.";
-    }
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+}
 
-    if (message.includes("failed to fetch") || message.includes("network")) {
-      return "Erro de conexão. Verifique sua internet e tente novamente.";
-    }
+function createThreadRecord(): ChatThread {
+  const now = Date.now();
+  return { id: createId(), title: DEFAULT_THREAD_TITLE, createdAt: now, updatedAt: now };
+}
 
-    if (message.includes("limite de mensagens atingido")) {
-      return "Você atingiu o limite de mensagens desta conversa. Limpe o chat para continuar.";
-    }
+function titleFromMessages(messages: Message[]): string | null {
+  const first = messages.find((m) => m.role === "user");
+  if (!first) return null;
 
-    if (message.includes("request aborted") || message.includes("aborted")) {
-      return "Mensagem cancelada pelo usuário.";
-    }
+  const text = first.content.replace(/\s+/g, " ").trim();
+  return text.length > 40 ? `${text.slice(0, 40).trimEnd()}…` : text;
+}
 
-    if (message.includes("timeout")) {
-      return "A requisição demorou muito para responder. Tente novamente.";
-    }
+/** Mensagens salvas por versões antigas não têm `id`. */
+function withIds(messages: Message[]): Message[] {
+  return messages.map((m) => (m.id ? m : { ...m, id: createId() }));
+}
 
-    if (message.includes("model") && message.includes("does not exist")) {
-      return "Modelo especificado não existe ou você não tem acesso a ele.";
-    }
+/**
+ * Converte o histórico salvo no contexto do modelo. Erros e execuções de
+ * ferramentas são só para exibição e ficam de fora.
+ */
+function toHistory(messages: Message[]): ChatHistoryMessage[] {
+  return messages.flatMap((m) =>
+    (m.role === "user" || m.role === "assistant") &&
+    !m.handoff &&
+    (m.content.trim() || m.attachments?.length)
+      ? [{ role: m.role, content: m.content, attachments: m.attachments }]
+      : [],
+  );
+}
+
+function toTranscript(messages: Message[]): TranscriptMessage[] {
+  return messages.flatMap((m) =>
+    (m.role === "user" || m.role === "assistant" || m.role === "agent") && m.content.trim()
+      ? [{ role: m.role, content: m.content, timestamp: m.timestamp }]
+      : [],
+  );
+}
+
+/** Atendimento humano em andamento. Trocar o objeto invalida eventos do anterior. */
+type LiveHandoff = {
+  threadId: string | null;
+  session?: AgentSession;
+  agent?: AgentInfo;
+  /** Mensagens digitadas enquanto o transporte ainda conecta. */
+  pending: string[];
+};
+
+export type FeedbackEvent = {
+  threadId: string | null;
+  messageId: string;
+  rating: FeedbackRating;
+  comment?: string;
+  /** A resposta avaliada e a pergunta que a gerou. */
+  response: string;
+  prompt?: string;
+  timestamp: number;
+};
+
+export type ResponseCompleteEvent = {
+  threadId: string | null;
+  /** Texto completo da resposta, somando todas as rodadas de ferramentas. */
+  text: string;
+  /** Do envio até o primeiro trecho da resposta, em ms. */
+  firstTokenLatency: number;
+  /** Do envio até o fim da resposta, em ms. */
+  latency: number;
+  /** Só vem quando o provider informa o consumo de tokens. */
+  usage?: TokenUsage;
+  /** Só vem quando o modelo está em `config.pricing`. */
+  cost?: number;
+  /** Só vem com `knowledge` e quando a busca achou trechos. */
+  sources?: Citation[];
+};
 
-    return error.message;
+/** Callbacks para analytics. Nenhum deles interfere no fluxo do chat. */
+export type ChatbotEvents = {
+  onMessageSent?: (event: { threadId: string | null; message: Message }) => void;
+  onResponseStart?: (event: { threadId: string | null; firstTokenLatency: number }) => void;
+  onResponseComplete?: (event: ResponseCompleteEvent) => void;
+  onError?: (event: { threadId: string | null; code: ChatbotErrorCode; error: ChatbotError }) => void;
+  /** Usuário cancelou a resposta. `partialText` é o que chegou até ali. */
+  onAbort?: (event: { threadId: string | null; partialText: string }) => void;
+  onFeedback?: (event: FeedbackEvent) => void;
+  /** Conversa passou para um atendente humano. */
+  onHandoffStart?: (event: { threadId: string | null; reason: HandoffReason }) => void;
+  /** Atendimento humano terminou, pelo atendente ou pelo usuário, e o bot voltou. */
+  onHandoffEnd?: (event: { threadId: string | null }) => void;
+};
+
+/**
+ * Agenda `callback` para o próximo frame. Com a aba em segundo plano o
+ * `requestAnimationFrame` para, então o texto segue chegando por timer.
+ */
+function scheduleFrame(callback: () => void): () => void {
+  if (typeof requestAnimationFrame === "function" && document.visibilityState !== "hidden") {
+    const frame = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(frame);
   }
 
-  return "Ocorreu um erro inesperado. Tente novamente.";
+  const timer = setTimeout(callback, 16);
+  return () => clearTimeout(timer);
+}
+
+function sumUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens,
+    model: usage.model ?? total?.model,
+  };
+}
+
+/** Um callback de analytics com erro não pode derrubar o chat. */
+function emit<T>(handler: ((event: T) => void) | undefined, event: T) {
+  try {
+    handler?.(event);
+  } catch (error) {
+    console.error("Erro em callback de evento do chatbot:", error);
+  }
 }
 
+export type UseChatbotOptions = ChatbotEvents & {
+  provider?: ProviderName | ChatProvider;
+  providerOptions?: ProviderOptions;
+  apiKey?: string;
+  config?: {
+    /** Mensagens do usuário por conversa. */
+    limit?: number;
+    context?: ContextOptions;
+    pricing?: PriceTable;
+    usageLimits?: UsageLimits;
+    /** Pede ao modelo sugestões de próximas perguntas após cada resposta. */
+    followUpSuggestions?: boolean;
+  } & GenerationParams;
+  tools?: ChatTool[];
+  /**
+   * Texto, URL, função ou uma lista deles, juntados em ordem. Aceita
+   * `{{variaveis}}`. Fontes que falham mostram um erro no chat, exceto
+   * `{ url, optional: true }`.
+   */
+  systemPrompt?: SystemPrompt;
+  promptVariables?: PromptVariables;
+  /** Documentos buscados a cada pergunta; os trechos mais relevantes vão junto com ela. */
+  knowledge?: KnowledgeOptions | KnowledgeBase;
+  /** Transfere a conversa para um atendente humano a pedido do usuário, do modelo ou após erros seguidos. */
+  handoff?: HandoffOptions;
+  /** Usado só sem `systemPrompt`; se não existir, segue sem prompt. */
+  initialPromptsFile?: string;
+  storageKey?: string;
+  storage?: ChatStorage;
+  writeDelay?: number;
+  locale?: ChatbotLocale;
+  strings?: ChatbotStringOverrides;
+  /** Recebe cada avaliação via POST, com o mesmo corpo do `onFeedback`. */
+  feedbackEndpoint?: string;
+};
+
 export function useChatbot({
   provider = "openai",
+  providerOptions,
   apiKey,
-  config = { limit: 10 },
+  config = {},
+  tools,
+  systemPrompt,
+  promptVariables,
+  knowledge,
+  handoff,
   initialPromptsFile = "/llms.md",
-}: {
-  provider?: "openai";
-  apiKey?: string;
-  config?: {
-    limit: number;
-    model?: string;
-  };
-  initialPromptsFile?: string;
-}): ChatbotState {
+  storageKey = "openai",
+  storage,
+  writeDelay = 300,
+  locale,
+  strings: stringOverrides,
+  feedbackEndpoint,
+  ...events
+}: UseChatbotOptions): ChatbotState {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(false);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const activeThreadRef = useRef<string | null>(null);
   const abortController = useRef(new AbortController());
 
+  // Lido a cada envio, então mudar o modelo ou a temperatura não recria o provider.
+  const generationParams = useRef<GenerationParams>({});
+  generationParams.current = {
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    topP: config.topP,
+    stop: config.stop,
+    responseFormat: config.responseFormat,
+  };
+
+  const initialPromptsRef = useRef("");
+  const promptFailed = useRef(false);
+
+  // Funções não entram na chave; são lidas pelo ref a cada `init`.
+  const systemPromptRef = useRef(systemPrompt);
+  systemPromptRef.current = systemPrompt;
+  const promptVariablesRef = useRef(promptVariables);
+  promptVariablesRef.current = promptVariables;
+  const promptKey = JSON.stringify([systemPrompt, promptVariables, locale]);
+
+  // Reindexa só quando as opções mudam, não a cada render com um objeto novo.
+  const knowledgeRef = useRef(knowledge);
+  knowledgeRef.current = knowledge;
+  const knowledgeKey = knowledge && ("search" in knowledge ? knowledge : JSON.stringify(knowledge));
+
+  const knowledgeBase = useMemo(() => {
+    const current = knowledgeRef.current;
+    if (!current) return undefined;
+
+    return "search" in current ? current : createKnowledgeBase(current);
+  }, [knowledgeKey]);
+
+  const handoffRef = useRef(handoff);
+  handoffRef.current = handoff;
+  const [handoffState, setHandoffState] = useState<HandoffState>(IDLE_HANDOFF);
+  const liveHandoff = useRef<LiveHandoff | null>(null);
+  const consecutiveErrors = useRef(0);
+
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const contextOptions = useRef<ContextOptions | undefined>(undefined);
+  contextOptions.current = config.context;
+
+  const toolsRef = useRef(tools);
+  toolsRef.current = tools;
+
+  const pricingRef = useRef(config.pricing);
+  pricingRef.current = config.pricing;
+
+  const followUpsRef = useRef(config.followUpSuggestions);
+  followUpsRef.current = config.followUpSuggestions;
+
+  const windowMs = config.usageLimits?.window?.durationMs;
+  const windowMsRef = useRef(windowMs);
+  windowMsRef.current = windowMs;
+
+  const ledgerKey = `chatbot_usage_${storageKey}`;
+  const [ledger, setLedger] = useState(() => loadLedger(ledgerKey));
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setLedger(loadLedger(ledgerKey));
+  }, [ledgerKey]);
+
+  useEffect(() => {
+    saveLedger(ledgerKey, ledger);
+  }, [ledgerKey, ledger]);
+
+  const eventsRef = useRef<ChatbotEvents>(events);
+  eventsRef.current = events;
+
+  // Texto da resposta em andamento, para o `onAbort`.
+  const streamingText = useRef("");
+
+  const providerKey = JSON.stringify(providerOptions ?? {});
+  const stringsKey = JSON.stringify(stringOverrides ?? {});
+
+  const strings = useMemo(
+    () => getStrings(locale, stringOverrides),
+    [locale, stringsKey],
+  );
+
   const chatProvider = useMemo(() => {
-    if (apiKey) {
-      if (typeof import.meta !== 'undefined' && import.meta.env) {
-        (import.meta.env as any).VITE_OPENAI_API_KEY = apiKey;
-      } else if (typeof process !== 'undefined' && process?.env) {
-        (process.env as any).REACT_APP_OPENAI_API_KEY = apiKey;
-      }
+    try {
+      return createChatProvider(provider, { ...providerOptions, apiKey: apiKey ?? providerOptions?.apiKey });
+    } catch (error) {
+      return createFailedProvider(error);
     }
-    return createOpenAIProvider();
-  }, [apiKey]);
+  }, [provider, apiKey, providerKey]);
+
+  const chatStorage = useMemo(
+    () => storage ?? createLocalStorageAdapter({ namespace: storageKey }),
+    [storage, storageKey],
+  );
+
+  // Preenchido depois, quando `addErrorMessage` existir.
+  const reportStorageError = useRef<(error: unknown) => void>(() => {});
+
+  const writer = useMemo(
+    () =>
+      createDebouncedWriter(chatStorage, writeDelay, (error) =>
+        reportStorageError.current(error),
+      ),
+    [chatStorage, writeDelay],
+  );
 
   useEffect(() => {
-    const savedMessages = storage.getMessages();
-    if (savedMessages.length > 0) {
+    const flush = () => {
+      writer.flush();
+    };
+
+    window.addEventListener("pagehide", flush);
+
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [writer]);
+
+  const threadsLoaded = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    threadsLoaded.current = (async () => {
+      let savedThreads = (await chatStorage.getThreads()).map((t) =>
+        t.title === LEGACY_DEFAULT_TITLE ? { ...t, title: DEFAULT_THREAD_TITLE } : t,
+      );
+
+      if (savedThreads.length === 0) {
+        const thread = createThreadRecord();
+        const legacyMessages = (await chatStorage.takeLegacyMessages?.()) ?? [];
+
+        if (legacyMessages.length > 0) {
+          thread.title = titleFromMessages(legacyMessages) ?? thread.title;
+          await chatStorage.saveMessages(thread.id, legacyMessages);
+        }
+
+        savedThreads = [thread];
+        await chatStorage.saveThreads(savedThreads);
+      }
+
+      const savedId = await chatStorage.getActiveThreadId();
+      const active =
+        savedThreads.find((t) => t.id === savedId) ??
+        [...savedThreads].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+      const savedMessages = withIds(await chatStorage.getMessages(active.id));
+
+      if (cancelled) return;
+
+      activeThreadRef.current = active.id;
+      await chatStorage.saveActiveThreadId(active.id);
+      setThreads(savedThreads);
+      setActiveThreadId(active.id);
       setMessages(savedMessages);
-    }
-  }, []);
+    })().catch((error) => {
+      console.error("Erro ao carregar histórico do chatbot:", error);
+    });
 
-  const saveMessages = useCallback((newMessages: Message[]) => {
-    const messagesWithoutSystem = newMessages.filter(
-      (m) => m.role !== "system",
-    );
-    storage.saveMessages(messagesWithoutSystem);
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [chatStorage]);
+
+  const persistThreads = useCallback(
+    (updated: ChatThread[]) => {
+      chatStorage.saveThreads(updated).catch(logStorageError);
+    },
+    [chatStorage],
+  );
+
+  // Mantém título e data de atualização da conversa ativa em dia.
+  useEffect(() => {
+    const threadId = activeThreadRef.current;
+    if (!threadId || messages.length === 0) return;
+
+    setThreads((prev) => {
+      const thread = prev.find((t) => t.id === threadId);
+      if (!thread) return prev;
+
+      const updatedAt = messages[messages.length - 1].timestamp;
+      const title =
+        thread.title === DEFAULT_THREAD_TITLE
+          ? titleFromMessages(messages) ?? thread.title
+          : thread.title;
+
+      if (thread.updatedAt === updatedAt && thread.title === title) return prev;
+
+      const updated = prev.map((t) =>
+        t.id === threadId ? { ...t, updatedAt, title } : t,
+      );
+      persistThreads(updated);
+      return updated;
+    });
+  }, [messages, persistThreads]);
+
+  const saveMessages = useCallback(
+    (newMessages: Message[], threadId = activeThreadRef.current) => {
+      if (!threadId) return;
+
+      const messagesToSave = newMessages
+        .filter((m) => m.role !== "system")
+        .map((m) =>
+          m.attachments
+            ? {
+                ...m,
+                attachments: compactAttachments(m.attachments, chatStorage.maxAttachmentSize),
+              }
+            : m,
+        );
+      writer.save(threadId, messagesToSave);
+    },
+    [writer, chatStorage],
+  );
 
   const addErrorMessage = useCallback(
     (error: unknown) => {
+      const chatbotError = toChatbotError(error);
+      const { code, params } = chatbotError;
+
+      emit(eventsRef.current.onError, {
+        threadId: activeThreadRef.current,
+        code,
+        error: chatbotError,
+      });
+
       const errorMessage: Message = {
+        id: createId(),
         role: "error",
-        content: getErrorMessage(error),
+        content: getErrorMessage(error, strings),
         timestamp: Date.now(),
         error: true,
+        errorCode: code,
+        ...(params ? { errorParams: params } : {}),
       };
 
       setMessages((prev) => {
@@ -135,90 +593,619 @@ export function useChatbot({
         return updated;
       });
     },
+    [saveMessages, strings],
+  );
+
+  reportStorageError.current = (error) =>
+    addErrorMessage(
+      new ChatbotError("storage_failed", "Não foi possível salvar o histórico", {
+        cause: error,
+      }),
+    );
+
+  const handleToolActivity = useCallback((activity: ToolActivity) => {
+    setMessages((prev) => {
+      const index = prev.findIndex(
+        (m) => m.role === "tool" && m.tool?.id === activity.id,
+      );
+
+      if (index === -1) {
+        return [
+          ...prev,
+          {
+            id: createId(),
+            role: "tool",
+            content: activity.name,
+            timestamp: Date.now(),
+            tool: activity,
+          },
+        ];
+      }
+
+      const updated = [...prev];
+      updated[index] = { ...updated[index], tool: activity };
+      return updated;
+    });
+  }, []);
+
+  const appendMessage = useCallback(
+    (message: Message, threadId = activeThreadRef.current) => {
+      setMessages((prev) => {
+        const updated = [...prev, message];
+        saveMessages(updated, threadId);
+        return updated;
+      });
+    },
     [saveMessages],
   );
 
+  /** Avisos de status do atendimento. Como `system`, não vão para o histórico salvo. */
+  const addNotice = useCallback(
+    (content: string) =>
+      appendMessage({ id: createId(), role: "system", content, timestamp: Date.now(), handoff: true }),
+    [appendMessage],
+  );
+
+  const finishHandoff = useCallback(() => {
+    const live = liveHandoff.current;
+    if (!live) return;
+
+    liveHandoff.current = null;
+    setHandoffState(IDLE_HANDOFF);
+    addNotice(strings.handoffEnded);
+    emit(eventsRef.current.onHandoffEnd, { threadId: live.threadId });
+  }, [addNotice, strings]);
+
+  const endHandoff = useCallback(() => {
+    const session = liveHandoff.current?.session;
+
+    finishHandoff();
+    session?.close().catch((error) => {
+      console.warn("Erro ao encerrar o atendimento humano:", error);
+    });
+  }, [finishHandoff]);
+
+  /** `transcript` é a conversa enviada ao atendente; por padrão, a que está na tela. */
+  const requestHandoff = useCallback(
+    async (reason: HandoffReason = "user", transcript = messagesRef.current) => {
+      const transport = handoffRef.current?.transport;
+      if (!transport || liveHandoff.current) return;
+
+      const threadId = activeThreadRef.current;
+      const live: LiveHandoff = { threadId, pending: [] };
+      liveHandoff.current = live;
+
+      setHandoffState({ ...IDLE_HANDOFF, status: "connecting", reason });
+      addNotice(strings.handoffConnecting);
+      emit(eventsRef.current.onHandoffStart, { threadId, reason });
+
+      const onEvent = (event: AgentEvent) => {
+        if (liveHandoff.current !== live) return;
+
+        switch (event.type) {
+          case "queued":
+            setHandoffState((prev) => ({ ...prev, status: "queued", queuePosition: event.position }));
+            break;
+          case "joined":
+            live.agent = event.agent;
+            setHandoffState((prev) => ({
+              ...prev,
+              status: "active",
+              agent: event.agent,
+              queuePosition: undefined,
+            }));
+            addNotice(formatMessage(strings.handoffJoined, { name: event.agent.name }));
+            break;
+          case "typing":
+            setHandoffState((prev) => ({ ...prev, agentTyping: event.typing }));
+            break;
+          case "message":
+            setHandoffState((prev) => ({ ...prev, agentTyping: false }));
+            appendMessage(
+              {
+                id: createId(),
+                role: "agent",
+                content: event.text,
+                timestamp: Date.now(),
+                agent: event.agent ?? live.agent,
+                handoff: true,
+              },
+              live.threadId,
+            );
+            break;
+          case "closed":
+            finishHandoff();
+            break;
+        }
+      };
+
+      let session: AgentSession;
+
+      try {
+        session = await transport.connect(
+          { reason, threadId, transcript: toTranscript(transcript), locale: locale ?? DEFAULT_LOCALE },
+          onEvent,
+        );
+      } catch (error) {
+        if (liveHandoff.current !== live) return;
+
+        console.error("Erro ao conectar com o atendimento humano:", error);
+        liveHandoff.current = null;
+        setHandoffState(IDLE_HANDOFF);
+        addErrorMessage(error);
+        return;
+      }
+
+      // Encerrado (troca de conversa, limpar) enquanto conectava.
+      if (liveHandoff.current !== live) {
+        session.close().catch(() => {});
+        return;
+      }
+
+      live.session = session;
+      setHandoffState((prev) => (prev.status === "connecting" ? { ...prev, status: "queued" } : prev));
+
+      for (const text of live.pending.splice(0)) {
+        await session.send(text).catch(addErrorMessage);
+      }
+    },
+    [addNotice, appendMessage, finishHandoff, addErrorMessage, strings, locale],
+  );
+
+  const sendToAgent = useCallback(
+    async (text: string) => {
+      const live = liveHandoff.current;
+      if (!live) return;
+
+      const message: Message = {
+        id: createId(),
+        role: "user",
+        content: text,
+        timestamp: Date.now(),
+        handoff: true,
+      };
+
+      appendMessage(message, live.threadId);
+      emit(eventsRef.current.onMessageSent, { threadId: live.threadId, message });
+
+      if (!live.session) {
+        live.pending.push(text);
+        return;
+      }
+
+      try {
+        await live.session.send(text);
+      } catch (error) {
+        console.error("Erro ao enviar mensagem ao atendente:", error);
+        addErrorMessage(error);
+      }
+    },
+    [appendMessage, addErrorMessage],
+  );
+
+  useEffect(
+    () => () => {
+      liveHandoff.current?.session?.close().catch(() => {});
+    },
+    [],
+  );
+
   const init = useCallback(async () => {
-    let initialPrompts = "";
+    // Baixa o prompt enquanto as conversas carregam. O erro só é mostrado
+    // depois, senão a troca para a conversa ativa apagaria a mensagem.
+    const promptLoaded = loadSystemPrompt(
+      systemPromptRef.current ?? { url: initialPromptsFile, optional: true },
+      resolvePromptVariables(promptVariablesRef.current, locale ?? DEFAULT_LOCALE),
+    ).then(
+      (prompt) => ({ prompt }),
+      (error: unknown) => ({ error }),
+    );
 
     try {
-      const res = await fetch(initialPromptsFile);
+      await threadsLoaded.current;
+
+      const loaded = await promptLoaded;
+      promptFailed.current = "error" in loaded;
 
-      if (res.ok) {
-        initialPrompts = await res.text();
+      if ("error" in loaded) {
+        console.error("Erro ao carregar o prompt de sistema:", loaded.error);
+        addErrorMessage(loaded.error);
+        return;
       }
-    } catch (e: unknown) {
-      console.warn("Arquivo de prompts não encontrado, usando systemPrompt padrão", e);
-    }
 
-    try {
-      await chatProvider.init(initialPrompts);
+      const initialPrompts = loaded.prompt;
+      initialPromptsRef.current = initialPrompts;
+
+      const threadId = activeThreadRef.current;
+      await chatProvider.init(
+        initialPrompts,
+        threadId ? toHistory(await chatStorage.getMessages(threadId)) : [],
+      );
     } catch (error) {
       console.error("Erro ao inicializar chatbot:", error);
       addErrorMessage(error);
     }
-  }, [chatProvider, initialPromptsFile, addErrorMessage]);
+  }, [chatProvider, initialPromptsFile, addErrorMessage, chatStorage, promptKey]);
+
+  const resetProvider = useCallback(
+    (history: Message[] = []) =>
+      chatProvider
+        .init(initialPromptsRef.current, toHistory(history))
+        .catch((error) => {
+          console.error("Erro ao reiniciar contexto do chatbot:", error);
+          return false;
+        }),
+    [chatProvider],
+  );
+
+  const stopStreaming = useCallback(() => {
+    abortController.current.abort("Request aborted by user");
+    abortController.current = new AbortController();
+    setLoading(false);
+  }, []);
 
   const clearChat = useCallback(() => {
+    const threadId = activeThreadRef.current;
+
+    stopStreaming();
+    endHandoff();
     setMessages([]);
-    storage.clearMessages();
-  }, []);
+    resetProvider();
 
-  const abortChatMessage = useCallback(() => {
-    if (abortController.current) {
-      abortController.current.abort("Request aborted by user");
+    if (threadId) {
+      writer.cancel(threadId);
+      chatStorage.deleteMessages(threadId).catch(logStorageError);
+      setThreads((prev) => {
+        const updated = prev.map((t) =>
+          t.id === threadId ? { ...t, title: DEFAULT_THREAD_TITLE } : t,
+        );
+        persistThreads(updated);
+        return updated;
+      });
+    }
+  }, [stopStreaming, endHandoff, resetProvider, writer, chatStorage, persistThreads]);
 
-      abortController.current = new AbortController();
+  const activateThread = useCallback(
+    async (id: string) => {
+      // O atendimento fica preso à conversa em que começou.
+      endHandoff();
+      activeThreadRef.current = id;
+      setActiveThreadId(id);
+      setMessages([]);
 
-      const cancelMessage: Message = {
-        role: "error",
-        content: "Mensagem cancelada. Você pode enviar uma nova mensagem.",
-        timestamp: Date.now(),
-        error: true,
-      };
+      try {
+        await writer.flush();
+        await chatStorage.saveActiveThreadId(id);
+        const threadMessages = withIds(await chatStorage.getMessages(id));
 
-      setMessages((prev) => {
-        const updated = [...prev, cancelMessage];
-        saveMessages(updated);
+        if (activeThreadRef.current !== id) return;
+
+        setMessages(threadMessages);
+        resetProvider(threadMessages);
+      } catch (error) {
+        console.error("Erro ao carregar conversa:", error);
+      }
+    },
+    [endHandoff, resetProvider, writer, chatStorage],
+  );
+
+  const createThread = useCallback(() => {
+    stopStreaming();
+
+    const thread = createThreadRecord();
+
+    setThreads((prev) => {
+      const updated = [thread, ...prev];
+      persistThreads(updated);
+      return updated;
+    });
+    activateThread(thread.id);
+  }, [activateThread, stopStreaming, persistThreads]);
+
+  const switchThread = useCallback(
+    (id: string) => {
+      if (id === activeThreadRef.current) return;
+
+      stopStreaming();
+      activateThread(id);
+    },
+    [activateThread, stopStreaming],
+  );
+
+  const renameThread = useCallback(
+    (id: string, title: string) => {
+      const trimmed = title.trim();
+      if (!trimmed) return;
+
+      setThreads((prev) => {
+        const updated = prev.map((t) =>
+          t.id === id ? { ...t, title: trimmed } : t,
+        );
+        persistThreads(updated);
         return updated;
       });
-    }
-  }, [saveMessages]);
+    },
+    [persistThreads],
+  );
 
-  const sendMessage = useCallback(
-    async (text: string) => {
-      if (messages.length > config.limit) {
-        addErrorMessage(new Error("Limite de mensagens atingido"));
-        return;
+  const deleteThread = useCallback(
+    (id: string) => {
+      writer.cancel(id);
+      chatStorage.deleteMessages(id).catch(logStorageError);
+
+      const remaining = threads.filter((t) => t.id !== id);
+      const next =
+        remaining.length > 0
+          ? [...remaining].sort((a, b) => b.updatedAt - a.updatedAt)[0]
+          : createThreadRecord();
+      const updated = remaining.length > 0 ? remaining : [next];
+
+      persistThreads(updated);
+      setThreads(updated);
+
+      if (id === activeThreadRef.current) {
+        stopStreaming();
+        activateThread(next.id);
       }
+    },
+    [threads, activateThread, stopStreaming, writer, chatStorage, persistThreads],
+  );
+
+  const transcriptLabels = useCallback(
+    (labels: Partial<TranscriptLabels> = {}): TranscriptLabels => {
+      const thread = threads.find((t) => t.id === activeThreadRef.current);
 
+      return {
+        title: thread?.title || titleFromMessages(messages) || strings.newThread,
+        user: strings.youLabel,
+        assistant: strings.chatbotName,
+        agent: strings.agentLabel,
+        exportedAt: strings.exportedAt,
+        locale: locale ?? DEFAULT_LOCALE,
+        ...labels,
+      };
+    },
+    [threads, messages, strings, locale],
+  );
+
+  const exportTranscript = useCallback(
+    async (format: TranscriptFormat, labels?: Partial<TranscriptLabels>) => {
+      const resolved = transcriptLabels(labels);
+
+      if (format === "json") return transcriptToJson(messages, resolved.title);
+      if (format === "html") return transcriptToHtml(messages, resolved);
+      return transcriptToMarkdown(messages, resolved);
+    },
+    [messages, transcriptLabels],
+  );
+
+  const downloadTranscript = useCallback(
+    async (format: TranscriptFormat, labels?: Partial<TranscriptLabels>) => {
+      downloadFile(await exportTranscript(format, labels), format, transcriptLabels(labels).title);
+    },
+    [exportTranscript, transcriptLabels],
+  );
+
+  // Vira uma conversa nova, para não sobrescrever a atual; o contexto do
+  // modelo é montado a partir dela ao ativar.
+  const importTranscript = useCallback(
+    async (file: Blob | string) => {
+      try {
+        const transcript = parseTranscript(typeof file === "string" ? file : await file.text());
+        // Ids novos: os do arquivo podem repetir os de outra conversa.
+        const importedMessages = transcript.messages.map((m) => ({ ...m, id: createId() }));
+        const thread = createThreadRecord();
+
+        thread.title = transcript.title || titleFromMessages(importedMessages) || thread.title;
+        thread.updatedAt = importedMessages[importedMessages.length - 1].timestamp;
+
+        stopStreaming();
+        await chatStorage.saveMessages(thread.id, importedMessages);
+
+        setThreads((prev) => {
+          const updated = [thread, ...prev];
+          persistThreads(updated);
+          return updated;
+        });
+        await activateThread(thread.id);
+
+        return true;
+      } catch (error) {
+        console.error("Erro ao importar conversa:", error);
+        addErrorMessage(error);
+        return false;
+      }
+    },
+    [stopStreaming, chatStorage, persistThreads, activateThread, addErrorMessage],
+  );
+
+  const abortChatMessage = useCallback(() => {
+    stopStreaming();
+
+    emit(eventsRef.current.onAbort, {
+      threadId: activeThreadRef.current,
+      partialText: streamingText.current,
+    });
+
+    const cancelMessage: Message = {
+      id: createId(),
+      role: "error",
+      content: strings.errors.aborted,
+      timestamp: Date.now(),
+      error: true,
+      errorCode: "aborted",
+    };
+
+    setMessages((prev) => {
+      // O resultado de uma ferramenta em andamento não chega mais depois do cancelamento.
+      const updated = [
+        ...prev.map((m) =>
+          m.tool?.status === "running" ? { ...m, tool: { ...m.tool, status: "error" as const } } : m,
+        ),
+        cancelMessage,
+      ];
+      saveMessages(updated);
+      return updated;
+    });
+  }, [stopStreaming, saveMessages, strings]);
+
+  /**
+   * Sugestões chegam depois da resposta, sem segurar o `loading`. São
+   * descartadas se o usuário já enviou outra mensagem ou trocou de conversa.
+   */
+  const suggestFollowUps = useCallback(
+    async (question: string, answer: string, threadId: string | null, controller: AbortController) => {
+      try {
+        const suggestions = await generateFollowUps(chatProvider, question, answer, {
+          params: { model: generationParams.current.model },
+          signal: controller.signal,
+          onUsage: (reported) => {
+            const cost = costOf(reported, pricingRef.current);
+            setLedger((prev) => recordUsage(prev, reported, cost));
+          },
+        });
+
+        if (
+          !suggestions.length ||
+          activeThreadRef.current !== threadId ||
+          abortController.current !== controller ||
+          controller.signal.aborted
+        ) {
+          return;
+        }
+
+        setMessages((prev) => {
+          const last = prev[prev.length - 1];
+          if (last?.role !== "assistant") return prev;
+
+          const updated = [...prev.slice(0, -1), { ...last, suggestions }];
+          saveMessages(updated, threadId);
+          return updated;
+        });
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn("Não foi possível gerar sugestões de perguntas:", error);
+        }
+      }
+    },
+    [chatProvider, saveMessages],
+  );
+
+  /**
+   * Envia `text` como continuação de `baseMessages`. Usado pelo envio
+   * normal e por editar/regenerar, que partem de um trecho do histórico.
+   */
+  const promptFrom = useCallback(
+    async (text: string, baseMessages: Message[], attachments?: Attachment[]) => {
       setLoading(true);
 
-      abortController.current = new AbortController();
+      const controller = new AbortController();
+      abortController.current = controller;
+
+      const threadId = activeThreadRef.current;
 
       const userMessage: Message = {
+        id: createId(),
         role: "user",
         content: text,
         timestamp: Date.now(),
+        ...(attachments?.length ? { attachments } : {}),
       };
 
-      const updatedMessages = [...messages, userMessage];
+      const updatedMessages = [...baseMessages, userMessage];
       setMessages(updatedMessages);
 
+      emit(eventsRef.current.onMessageSent, { threadId, message: userMessage });
+
+      const startedAt = Date.now();
+      setLedger((prev) => recordTurn(prev, startedAt, windowMsRef.current));
+      setNow(startedAt);
+
+      let firstTokenAt: number | null = null;
+      let usage: TokenUsage | undefined;
+      // Tamanho do texto já coberto por um `onUsage`, para estimar só a rodada cortada.
+      let usageTextLength = 0;
+      let streamStarted = false;
+      let failed = false;
+      let knowledgeText: string | undefined;
+      let citations: Citation[] = [];
+      streamingText.current = "";
+
+      if (knowledgeBase) {
+        try {
+          const passages = await knowledgeBase.search(text);
+          ({ text: knowledgeText, citations } = formatKnowledge(
+            passages,
+            knowledgeBase.instructions,
+          ));
+        } catch (error) {
+          console.warn("Erro na busca da base de conhecimento, respondendo sem ela:", error);
+        }
+      }
+
+      // Os trechos são juntados e aplicados uma vez por frame, sem mutar a
+      // mensagem anterior (o StrictMode roda o updater duas vezes).
+      let pendingText = "";
+      let cancelFrame: (() => void) | null = null;
+
+      const flushChunks = () => {
+        cancelFrame?.();
+        cancelFrame = null;
+
+        const chunkText = pendingText;
+        pendingText = "";
+
+        if (!chunkText || activeThreadRef.current !== threadId || controller.signal.aborted) return;
+
+        setMessages((prev) => {
+          const last = prev[prev.length - 1];
+          const updated =
+            last?.role === "assistant"
+              ? [...prev.slice(0, -1), { ...last, content: last.content + chunkText }]
+              : [
+                  ...prev,
+                  {
+                    id: createId(),
+                    role: "assistant" as const,
+                    content: chunkText,
+                    timestamp: Date.now(),
+                  },
+                ];
+
+          saveMessages(updated, threadId);
+          return updated;
+        });
+      };
+
       try {
         const stream = await chatProvider.prompt(
           text,
-          abortController.current.signal,
-        );
+          controller.signal,
+          {
+            params: generationParams.current,
+            tools:
+              handoffRef.current && handoffRef.current.tool !== false
+                ? [...(toolsRef.current ?? []), createHandoffTool(() => requestHandoff("tool"))]
+                : toolsRef.current,
+            context: contextOptions.current,
+            attachments,
+            knowledge: knowledgeText,
+            onToolActivity: (activity) => {
+              // Como em `flushChunks`: depois de cancelar ou trocar de conversa, o cartão é descartado.
+              if (activeThreadRef.current !== threadId || controller.signal.aborted) return;
 
-        const botMessage: Message = {
-          role: "assistant",
-          content: "",
-          timestamp: Date.now(),
-        };
+              // O texto da rodada anterior entra antes do cartão da ferramenta.
+              flushChunks();
+              handleToolActivity(activity);
+            },
+            onUsage: (reported) => {
+              usage = sumUsage(usage, reported);
+              usageTextLength = streamingText.current.length;
+            },
+          },
+        );
 
-        const messagesWithBot = [...updatedMessages, botMessage];
-        setMessages(messagesWithBot);
+        streamStarted = true;
 
         const reader = (stream as ReadableStream<string>).getReader();
         const decoder = new TextDecoder();
@@ -235,27 +1222,82 @@ export function useChatbot({
             hasContent = true;
           }
 
-          setMessages((prev) => {
-            const updated = [...prev];
-            const last = updated[updated.length - 1];
+          // Trocou de conversa, editou ou regenerou no meio da resposta.
+          if (activeThreadRef.current !== threadId || controller.signal.aborted) break;
 
-            if (last.role === "assistant") {
-              last.content += chunk;
-            }
+          streamingText.current += chunk;
 
-            setTimeout(() => saveMessages(updated), 0);
+          if (firstTokenAt === null) {
+            firstTokenAt = Date.now();
+            emit(eventsRef.current.onResponseStart, {
+              threadId,
+              firstTokenLatency: firstTokenAt - startedAt,
+            });
+          }
 
-            return [...updated];
-          });
+          pendingText += chunk;
+          cancelFrame ??= scheduleFrame(flushChunks);
         }
 
+        flushChunks();
+
         if (!hasContent) {
-          throw new Error("Nenhuma resposta foi gerada pelo modelo");
+          throw new ChatbotError("empty_response", "Nenhuma resposta foi gerada pelo modelo");
+        }
+
+        consecutiveErrors.current = 0;
+
+        const cost = usage ? costOf(usage, pricingRef.current) : undefined;
+
+        const sources = citations.length
+          ? citedSources(streamingText.current, citations)
+          : undefined;
+
+        if (activeThreadRef.current === threadId && !controller.signal.aborted) {
+          if (usage || sources) {
+            const reported = usage;
+
+            setMessages((prev) => {
+              let index = prev.length - 1;
+              while (index >= 0 && prev[index].role !== "assistant") index--;
+              if (index === -1) return prev;
+
+              const updated = [...prev];
+              updated[index] = {
+                ...updated[index],
+                ...(reported ? { usage: reported } : {}),
+                ...(cost !== undefined ? { cost } : {}),
+                ...(sources ? { sources } : {}),
+              };
+              saveMessages(updated, threadId);
+              return updated;
+            });
+          }
+
+          emit(eventsRef.current.onResponseComplete, {
+            threadId,
+            text: streamingText.current,
+            firstTokenLatency: (firstTokenAt ?? Date.now()) - startedAt,
+            latency: Date.now() - startedAt,
+            usage,
+            cost,
+            sources,
+          });
+
+          if (followUpsRef.current && chatProvider.complete) {
+            suggestFollowUps(text, streamingText.current, threadId, controller);
+          }
         }
       } catch (err) {
+        failed = true;
         console.error("Erro ao enviar mensagem:", err);
+        flushChunks();
 
-        if (err instanceof Error && err.message.includes("aborted")) {
+        if (activeThreadRef.current !== threadId || abortController.current !== controller) {
+          return;
+        }
+
+        if (toChatbotError(err).code === "aborted") {
           setMessages((prev) => {
             const updated = [...prev];
             if (
@@ -280,14 +1322,244 @@ export function useChatbot({
           });
 
           addErrorMessage(err);
+
+          const threshold = handoffRef.current?.errorThreshold ?? DEFAULT_HANDOFF_ERROR_THRESHOLD;
+          consecutiveErrors.current += 1;
+
+          if (threshold > 0 && consecutiveErrors.current >= threshold) {
+            consecutiveErrors.current = 0;
+            requestHandoff("errors");
+          }
         }
 
-        saveMessages(updatedMessages);
+        saveMessages(updatedMessages, threadId);
       } finally {
-        setLoading(false);
+        // Respostas canceladas e rodadas que falharam também contam para os limites.
+        // A OpenAI só informa o uso no fim do stream; sem ele, o da rodada cortada é estimado.
+        if (
+          streamStarted &&
+          (controller.signal.aborted || failed) &&
+          (!usage || streamingText.current.length > usageTextLength)
+        ) {
+          const count = contextOptions.current?.tokenCounter ?? estimateTokens;
+          const promptTokens =
+            count(toHistory(updatedMessages).map((m) => m.content).join("\n")) +
+            (knowledgeText ? count(knowledgeText) : 0);
+          const completionTokens = count(streamingText.current.slice(usageTextLength));
+
+          usage = sumUsage(usage, {
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+            // Sem o modelo, `costOf` não acha o preço e a resposta cortada sairia de graça.
+            model: usage?.model ?? generationParams.current.model ?? chatProvider.model,
+          });
+        }
+
+        if (usage) {
+          const reported = usage;
+          setLedger((prev) => recordUsage(prev, reported, costOf(reported, pricingRef.current)));
+        }
+
+        if (abortController.current === controller) {
+          setLoading(false);
+        }
+      }
+    },
+    [
+      chatProvider,
+      knowledgeBase,
+      saveMessages,
+      addErrorMessage,
+      handleToolActivity,
+      requestHandoff,
+      suggestFollowUps,
+    ],
+  );
+
+  const usageStatus = getUsageStatus(
+    ledger,
+    config.usageLimits,
+    now,
+    messages.filter((m) => m.role === "user" && !m.handoff).length,
+    config.limit,
+  );
+  const { blockedBy, resetsAt } = usageStatus;
+
+  // Libera a interface quando a janela de envios passa.
+  useEffect(() => {
+    if (!resetsAt) return;
+
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(resetsAt - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [resetsAt]);
+
+  /**
+   * Mostra o erro do limite atingido. Editar e gerar novamente substituem
+   * um turno da conversa, então o limite por conversa não se aplica a eles.
+   */
+  const checkLimits = useCallback(
+    (replacesTurn = false) => {
+      if (!blockedBy || (replacesTurn && blockedBy.code === "limit_reached")) return true;
+
+      addErrorMessage(
+        new ChatbotError(blockedBy.code, "Limite de uso atingido", { params: blockedBy.params }),
+      );
+      return false;
+    },
+    [blockedBy, addErrorMessage],
+  );
+
+  /** Sem o prompt de sistema obrigatório, tenta carregar de novo antes de enviar. */
+  const ensurePrompt = useCallback(async () => {
+    if (!promptFailed.current) return true;
+
+    await init();
+    return !promptFailed.current;
+  }, [init]);
+
+  const sendMessage = useCallback(
+    async (text: string, attachments?: Attachment[]) => {
+      if (liveHandoff.current) {
+        await sendToAgent(text);
+        return;
+      }
+
+      if (handoffRef.current && matchesHandoffTrigger(text, handoffRef.current.triggers)) {
+        const message: Message = {
+          id: createId(),
+          role: "user",
+          content: text,
+          timestamp: Date.now(),
+          handoff: true,
+        };
+        const updated = [...messages, message];
+
+        setMessages(updated);
+        saveMessages(updated);
+        emit(eventsRef.current.onMessageSent, { threadId: activeThreadRef.current, message });
+        await requestHandoff("user", updated);
+        return;
+      }
+
+      if (!checkLimits() || !(await ensurePrompt())) return;
+
+      await promptFrom(text, messages, attachments);
+    },
+    [messages, checkLimits, ensurePrompt, promptFrom, sendToAgent, saveMessages, requestHandoff],
+  );
+
+  /** Refaz o contexto do modelo a partir de um trecho do histórico e reenvia. */
+  const rewindAndSend = useCallback(
+    async (text: string, baseMessages: Message[], attachments?: Attachment[]) => {
+      stopStreaming();
+      setMessages(baseMessages);
+      saveMessages(baseMessages);
+      await resetProvider(baseMessages);
+      await promptFrom(text, baseMessages, attachments);
+    },
+    [stopStreaming, saveMessages, resetProvider, promptFrom],
+  );
+
+  const editMessage = useCallback(
+    async (id: string, text: string) => {
+      const index = messages.findIndex((m) => m.id === id && m.role === "user");
+      if (index === -1) return;
+
+      const { attachments } = messages[index];
+      if (!text.trim() && !attachments?.length) return;
+      if (liveHandoff.current || !checkLimits(true) || !(await ensurePrompt())) return;
+
+      await rewindAndSend(text, messages.slice(0, index), attachments);
+    },
+    [messages, checkLimits, ensurePrompt, rewindAndSend],
+  );
+
+  const regenerate = useCallback(async () => {
+    let index = messages.length - 1;
+    while (index >= 0 && (messages[index].role !== "user" || messages[index].handoff)) index--;
+    if (index === -1) return;
+    if (liveHandoff.current || !checkLimits(true) || !(await ensurePrompt())) return;
+
+    await rewindAndSend(
+      messages[index].content,
+      messages.slice(0, index),
+      messages[index].attachments,
+    );
+  }, [messages, checkLimits, ensurePrompt, rewindAndSend]);
+
+  const deleteMessage = useCallback(
+    (id: string) => {
+      const index = messages.findIndex((m) => m.id === id);
+      if (index === -1) return;
+
+      // Remove o turno inteiro: a pergunta e tudo o que veio em resposta a ela.
+      let start = index;
+      while (start > 0 && messages[start].role !== "user") start--;
+      if (messages[start].role !== "user") start = index;
+
+      let end = start + 1;
+      while (end < messages.length && messages[end].role !== "user") end++;
+
+      const updated = [...messages.slice(0, start), ...messages.slice(end)];
+
+      if (loading) stopStreaming();
+      setMessages(updated);
+      saveMessages(updated);
+      resetProvider(updated);
+    },
+    [messages, loading, stopStreaming, saveMessages, resetProvider],
+  );
+
+  const rateMessage = useCallback(
+    (id: string, rating: FeedbackRating, comment?: string) => {
+      const index = messages.findIndex((m) => m.id === id && m.role === "assistant");
+      if (index === -1) return;
+
+      const feedback: MessageFeedback = {
+        rating,
+        timestamp: Date.now(),
+        ...(comment?.trim() ? { comment: comment.trim() } : {}),
+      };
+      const prompt = messages
+        .slice(0, index)
+        .reverse()
+        .find((m) => m.role === "user")?.content;
+      const event: FeedbackEvent = {
+        threadId: activeThreadRef.current,
+        messageId: id,
+        rating,
+        comment: feedback.comment,
+        response: messages[index].content,
+        prompt,
+        timestamp: feedback.timestamp,
+      };
+
+      setMessages((prev) => {
+        const updated = prev.map((m) => (m.id === id ? { ...m, feedback } : m));
+        saveMessages(updated);
+        return updated;
+      });
+
+      emit(eventsRef.current.onFeedback, event);
+
+      if (feedbackEndpoint) {
+        fetch(feedbackEndpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(event),
+        })
+          .then((res) => {
+            if (!res.ok) {
+              console.error(`Erro ao enviar feedback: HTTP ${res.status}`);
+            }
+          })
+          .catch((error) => {
+            console.error("Erro ao enviar feedback:", error);
+          });
       }
     },
-    [chatProvider, messages, saveMessages, config.limit, addErrorMessage],
+    [messages, saveMessages, feedbackEndpoint],
   );
 
   return {
@@ -297,5 +1569,22 @@ export function useChatbot({
     sendMessage,
     clearChat,
     abortChatMessage,
+    editMessage,
+    regenerate,
+    deleteMessage,
+    rateMessage,
+    usage: usageStatus,
+    handoff: handoffState,
+    requestHandoff,
+    endHandoff,
+    threads,
+    activeThreadId,
+    createThread,
+    switchThread,
+    renameThread,
+    deleteThread,
+    exportTranscript,
+    downloadTranscript,
+    importTranscript,
   };
 }
@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+
+export type VirtualListOptions = {
+  count: number;
+  getKey: (index: number) => string;
+  /** Elemento com a barra de rolagem. */
+  scrollRef: RefObject<HTMLElement | null>;
+  enabled: boolean;
+  /** Altura usada até o item ser medido, em px. */
+  estimateSize?: number;
+  /** Quanto renderizar além da área visível, em px, para cima e para baixo. */
+  overscan?: number;
+};
+
+export type VirtualList = {
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+  /** Ref de cada item renderizado; o item precisa ter `data-key`. */
+  measureElement: (element: HTMLElement | null) => (() => void) | undefined;
+};
+
+/**
+ * Lista com altura variável que só monta os itens perto da área visível.
+ * As alturas são medidas com `ResizeObserver` e guardadas por chave, então
+ * sobrevivem a itens entrando e saindo da lista.
+ */
+export function useVirtualList({
+  count,
+  getKey,
+  scrollRef,
+  enabled,
+  estimateSize = 96,
+  overscan = 800,
+}: VirtualListOptions): VirtualList {
+  const sizes = useRef(new Map<string, number>());
+  const [viewport, setViewport] = useState({ top: 0, height: 0, gap: 0 });
+  const [, setMeasured] = useState(0);
+  const cancelFrame = useRef<(() => void) | null>(null);
+
+  // Scroll e medições de um mesmo frame viram um render só.
+  const update = useCallback(() => {
+    if (cancelFrame.current) return;
+
+    const run = () => {
+      cancelFrame.current = null;
+      const element = scrollRef.current;
+      if (!element) return;
+
+      // O `gap` do flex é lido aqui, uma vez por frame, e não a cada render.
+      const gap = parseFloat(getComputedStyle(element).rowGap) || 0;
+
+      setViewport((prev) =>
+        prev.top === element.scrollTop &&
+        prev.height === element.clientHeight &&
+        prev.gap === gap
+          ? prev
+          : { top: element.scrollTop, height: element.clientHeight, gap },
+      );
+      setMeasured((version) => version + 1);
+    };
+
+    if (typeof requestAnimationFrame === "function") {
+      const frame = requestAnimationFrame(run);
+      cancelFrame.current = () => cancelAnimationFrame(frame);
+    } else {
+      const timer = setTimeout(run, 16);
+      cancelFrame.current = () => clearTimeout(timer);
+    }
+  }, [scrollRef]);
+
+  const observer = useRef<ResizeObserver | null>(null);
+  const observed = useRef(new Set<HTMLElement>());
+
+  if (!observer.current && typeof ResizeObserver !== "undefined") {
+    observer.current = new ResizeObserver((entries) => {
+      let changed = false;
+
+      for (const entry of entries) {
+        const key = (entry.target as HTMLElement).dataset.key;
+        const height = (entry.target as HTMLElement).offsetHeight;
+
+        if (key && height && sizes.current.get(key) !== height) {
+          sizes.current.set(key, height);
+          changed = true;
+        }
+      }
+
+      if (changed) update();
+    });
+  }
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!enabled || !element) return;
+
+    element.addEventListener("scroll", update, { passive: true });
+    update();
+
+    return () => element.removeEventListener("scroll", update);
+  }, [enabled, scrollRef, update]);
+
+  // O React 18 ignora a limpeza devolvida pelo ref e só o chama com `null`;
+  // os itens que saíram da tela deixam de ser observados aqui.
+  useEffect(() => {
+    for (const element of observed.current) {
+      if (!element.isConnected) {
+        observer.current?.unobserve(element);
+        observed.current.delete(element);
+      }
+    }
+  });
+
+  useEffect(
+    () => () => {
+      observer.current?.disconnect();
+      observed.current.clear();
+      cancelFrame.current?.();
+    },
+    [],
+  );
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return undefined;
+
+    if (!observer.current) {
+      if (element.dataset.key && element.offsetHeight) {
+        sizes.current.set(element.dataset.key, element.offsetHeight);
+      }
+
+      return undefined;
+    }
+
+    const current = observer.current;
+    current.observe(element);
+    observed.current.add(element);
+
+    return () => {
+      current.unobserve(element);
+      observed.current.delete(element);
+    };
+  }, []);
+
+  if (!enabled) {
+    return { start: 0, end: count, paddingTop: 0, paddingBottom: 0, measureElement };
+  }
+
+  const { gap } = viewport;
+  const sizeOf = (index: number) => (sizes.current.get(getKey(index)) ?? estimateSize) + gap;
+
+  const from = viewport.top - overscan;
+  const to = viewport.top + viewport.height + overscan;
+
+  let offset = 0;
+  let start = 0;
+
+  while (start < count && offset + sizeOf(start) < from) {
+    offset += sizeOf(start);
+    start++;
+  }
+
+  const paddingTop = offset;
+  let end = start;
+
+  while (end < count && offset < to) {
+    offset += sizeOf(end);
+    end++;
+  }
+
+  let paddingBottom = 0;
+
+  for (let index = end; index < count; index++) {
+    paddingBottom += sizeOf(index);
+  }
+
+  // O espaçador também ganha um `gap` do flex, que já está na soma.
+  return {
+    start,
+    end,
+    paddingTop: Math.max(0, paddingTop - gap),
+    paddingBottom: Math.max(0, paddingBottom - gap),
+    measureElement,
+  };
+}
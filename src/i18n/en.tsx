@@ -0,0 +1,83 @@
+import type { ChatbotStrings } from './types';
+
+export const en: ChatbotStrings = {
+  chatbotName: 'AI Assistant',
+  welcomeBubble: '👋 Hi! How can I help you today?',
+  firstBotMessage: "Hi! I'm your virtual assistant. How can I help you?",
+  avatarAlt: 'Assistant',
+  openChat: 'Open chat',
+  closeChat: 'Close chat',
+  clearChat: 'Clear conversation',
+  threads: 'Conversations',
+  newThread: 'New conversation',
+  threadName: 'Conversation name',
+  rename: 'Rename',
+  renameThread: 'Rename {title}',
+  delete: 'Delete',
+  deleteThread: 'Delete {title}',
+  copy: 'Copy',
+  copied: 'Copied',
+  edit: 'Edit',
+  editMessage: 'Edit message',
+  regenerate: 'Regenerate',
+  cancel: 'Cancel',
+  send: 'Send',
+  error: 'Error',
+  retry: 'Try again',
+  inputPlaceholder: 'Type your message...',
+  attachFile: 'Attach file',
+  removeAttachment: 'Remove {name}',
+  toolRunning: 'Running {name}...',
+  toolDone: '{name} finished',
+  toolFailed: '{name} failed',
+  typing: 'Typing...',
+  replyAnnouncement: '{name} replied: {message}',
+  goodResponse: 'Good response',
+  badResponse: 'Bad response',
+  feedbackPrompt: 'What could be better? (optional)',
+  skip: 'Skip',
+  remainingMessages: 'Messages left: {count}',
+  remainingTokens: 'Tokens left: {count}',
+  remainingBudget: 'Budget left: {amount}',
+  sources: 'Sources',
+  suggestions: 'Suggested questions',
+  handoffConnecting: 'Transferring you to an agent...',
+  handoffJoined: '{name} joined the conversation.',
+  handoffEnded: 'The session has ended. You are back with the virtual assistant.',
+  agentTyping: '{name} is typing…',
+  agentLabel: 'Agent',
+  endHandoff: 'End session',
+  exportChat: 'Export conversation',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportHtml: 'Printable page (.html)',
+  importChat: 'Import conversation (.json)',
+  exportedAt: 'Exported on {date}',
+  youLabel: 'You',
+  errors: {
+    auth: 'Invalid API key. Check the key configured in your .env file.',
+    missing_api_key: 'API key not configured. Add the key to your .env file or to providerOptions.',
+    missing_endpoint: 'Proxy endpoint not configured. Set the endpoint prop on Chatbot.',
+    quota: 'Usage quota exceeded. Check your plan or add credits.',
+    rate_limit: 'Too many requests. Please wait a moment before trying again.',
+    network: 'Connection error. Check your internet connection and try again.',
+    server: 'The service is having trouble right now. Please try again shortly.',
+    timeout: 'The request took too long to respond. Please try again.',
+    model_not_found: 'The specified model does not exist or you do not have access to it.',
+    aborted: 'Message cancelled. You can send a new message.',
+    empty_response: 'The model did not generate a response.',
+    limit_reached: 'You have reached the message limit for this conversation. Clear the chat to continue.',
+    turn_limit_reached: 'You have reached the message limit for this session.',
+    window_limit_reached: 'You sent too many messages in a short time. Try again in {minutes} min.',
+    token_limit_reached: 'You have reached the usage limit for this session.',
+    cost_limit_reached: 'You have reached the spending limit for this session.',
+    unsupported_file: 'Unsupported file type: {name}',
+    file_too_large: '{name} is larger than the {maxMb} MB limit',
+    too_many_files: 'Up to {max} files per message',
+    system_prompt_unavailable: 'Could not load the assistant instructions ({source}). Please try again later.',
+    handoff_unavailable: 'No agent is available right now. Please try again later.',
+    invalid_transcript: 'Invalid conversation file, or a version that is not supported.',
+    storage_failed: 'Could not save the history in this browser. New messages may be lost when the page reloads.',
+    unknown: 'An unexpected error occurred. Please try again.',
+  },
+};
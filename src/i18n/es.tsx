@@ -0,0 +1,83 @@
+import type { ChatbotStrings } from './types';
+
+export const es: ChatbotStrings = {
+  chatbotName: 'Asistente IA',
+  welcomeBubble: '👋 ¡Hola! ¿En qué puedo ayudarte hoy?',
+  firstBotMessage: '¡Hola! Soy tu asistente virtual. ¿Cómo puedo ayudarte?',
+  avatarAlt: 'Asistente',
+  openChat: 'Abrir chat',
+  closeChat: 'Cerrar chat',
+  clearChat: 'Borrar conversación',
+  threads: 'Conversaciones',
+  newThread: 'Nueva conversación',
+  threadName: 'Nombre de la conversación',
+  rename: 'Renombrar',
+  renameThread: 'Renombrar {title}',
+  delete: 'Eliminar',
+  deleteThread: 'Eliminar {title}',
+  copy: 'Copiar',
+  copied: 'Copiado',
+  edit: 'Editar',
+  editMessage: 'Editar mensaje',
+  regenerate: 'Regenerar',
+  cancel: 'Cancelar',
+  send: 'Enviar',
+  error: 'Error',
+  retry: 'Reintentar',
+  inputPlaceholder: 'Escribe tu mensaje...',
+  attachFile: 'Adjuntar archivo',
+  removeAttachment: 'Quitar {name}',
+  toolRunning: 'Ejecutando {name}...',
+  toolDone: '{name} completado',
+  toolFailed: 'Falló {name}',
+  typing: 'Escribiendo...',
+  replyAnnouncement: '{name} respondió: {message}',
+  goodResponse: 'Buena respuesta',
+  badResponse: 'Mala respuesta',
+  feedbackPrompt: '¿Qué se podría mejorar? (opcional)',
+  skip: 'Omitir',
+  remainingMessages: 'Mensajes restantes: {count}',
+  remainingTokens: 'Tokens restantes: {count}',
+  remainingBudget: 'Saldo restante: {amount}',
+  sources: 'Fuentes',
+  suggestions: 'Preguntas sugeridas',
+  handoffConnecting: 'Te estamos transfiriendo a un agente...',
+  handoffJoined: '{name} se unió a la conversación.',
+  handoffEnded: 'Atención finalizada. Volviste a hablar con el asistente virtual.',
+  agentTyping: '{name} está escribiendo…',
+  agentLabel: 'Agente',
+  endHandoff: 'Finalizar atención',
+  exportChat: 'Exportar conversación',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportHtml: 'Página para imprimir (.html)',
+  importChat: 'Importar conversación (.json)',
+  exportedAt: 'Exportada el {date}',
+  youLabel: 'Tú',
+  errors: {
+    auth: 'Clave de API inválida. Revisa la clave configurada en el archivo .env.',
+    missing_api_key: 'Clave de API no configurada. Agrega la clave en el archivo .env o en providerOptions.',
+    missing_endpoint: 'Endpoint del proxy no configurado. Indica la prop endpoint en Chatbot.',
+    quota: 'Se superó la cuota de uso. Revisa tu plan o agrega créditos.',
+    rate_limit: 'Demasiadas solicitudes. Espera un momento antes de volver a intentarlo.',
+    network: 'Error de conexión. Revisa tu internet e inténtalo de nuevo.',
+    server: 'El servicio tiene problemas en este momento. Inténtalo de nuevo en unos instantes.',
+    timeout: 'La solicitud tardó demasiado en responder. Inténtalo de nuevo.',
+    model_not_found: 'El modelo especificado no existe o no tienes acceso a él.',
+    aborted: 'Mensaje cancelado. Puedes enviar un nuevo mensaje.',
+    empty_response: 'El modelo no generó ninguna respuesta.',
+    limit_reached: 'Alcanzaste el límite de mensajes de esta conversación. Borra el chat para continuar.',
+    turn_limit_reached: 'Alcanzaste el límite de mensajes de esta sesión.',
+    window_limit_reached: 'Enviaste demasiados mensajes en poco tiempo. Inténtalo de nuevo en {minutes} min.',
+    token_limit_reached: 'Alcanzaste el límite de uso de esta sesión.',
+    cost_limit_reached: 'Alcanzaste el límite de gastos de esta sesión.',
+    unsupported_file: 'Tipo de archivo no compatible: {name}',
+    file_too_large: '{name} supera el límite de {maxMb} MB',
+    too_many_files: 'Máximo de {max} archivos por mensaje',
+    system_prompt_unavailable: 'No se pudieron cargar las instrucciones del asistente ({source}). Inténtalo de nuevo más tarde.',
+    handoff_unavailable: 'No hay ningún agente disponible en este momento. Inténtalo de nuevo más tarde.',
+    invalid_transcript: 'Archivo de conversación no válido o de una versión no compatible.',
+    storage_failed: 'No se pudo guardar el historial en este navegador. Los mensajes nuevos pueden perderse al recargar la página.',
+    unknown: 'Ocurrió un error inesperado. Inténtalo de nuevo.',
+  },
+};
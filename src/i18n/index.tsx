@@ -0,0 +1,60 @@
+import { toChatbotError } from '../provider/errors';
+import { en } from './en';
+import { es } from './es';
+import { ptBR } from './ptBR';
+import type { ChatbotLocale, ChatbotStringOverrides, ChatbotStrings } from './types';
+
+export type { ChatbotLocale, ChatbotStringOverrides, ChatbotStrings } from './types';
+
+export const DEFAULT_LOCALE = 'pt-BR';
+
+const dictionaries = new Map<string, ChatbotStrings>([
+  ['pt-BR', ptBR],
+  ['en', en],
+  ['es', es],
+]);
+
+export function registerLocale(locale: string, strings: ChatbotStrings) {
+  dictionaries.set(locale, strings);
+}
+
+/** Aceita variações como `en-US` ou `pt`, caindo para o idioma base. */
+function findDictionary(locale: string): ChatbotStrings | undefined {
+  const exact = dictionaries.get(locale);
+  if (exact) return exact;
+
+  const language = locale.split('-')[0].toLowerCase();
+
+  for (const [key, strings] of dictionaries) {
+    if (key.split('-')[0].toLowerCase() === language) return strings;
+  }
+
+  return undefined;
+}
+
+export function getStrings(
+  locale: ChatbotLocale = DEFAULT_LOCALE,
+  overrides: ChatbotStringOverrides = {}
+): ChatbotStrings {
+  const base = findDictionary(locale) ?? ptBR;
+
+  return {
+    ...base,
+    ...overrides,
+    errors: { ...base.errors, ...overrides.errors },
+  };
+}
+
+export function formatMessage(
+  template: string,
+  params: Record<string, string | number> = {}
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in params ? String(params[key]) : match
+  );
+}
+
+export function getErrorMessage(error: unknown, strings: ChatbotStrings): string {
+  const { code, params } = toChatbotError(error);
+  return formatMessage(strings.errors[code] ?? strings.errors.unknown, params);
+}
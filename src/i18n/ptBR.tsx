@@ -0,0 +1,83 @@
+import type { ChatbotStrings } from './types';
+
+export const ptBR: ChatbotStrings = {
+  chatbotName: 'Assistente IA',
+  welcomeBubble: '👋 Olá! Como posso ajudar você hoje?',
+  firstBotMessage: 'Olá! Sou seu assistente virtual. Como posso te ajudar?',
+  avatarAlt: 'Assistente',
+  openChat: 'Abrir chat',
+  closeChat: 'Fechar chat',
+  clearChat: 'Limpar conversa',
+  threads: 'Conversas',
+  newThread: 'Nova conversa',
+  threadName: 'Nome da conversa',
+  rename: 'Renomear',
+  renameThread: 'Renomear {title}',
+  delete: 'Excluir',
+  deleteThread: 'Excluir {title}',
+  copy: 'Copiar',
+  copied: 'Copiado',
+  edit: 'Editar',
+  editMessage: 'Editar mensagem',
+  regenerate: 'Gerar novamente',
+  cancel: 'Cancelar',
+  send: 'Enviar',
+  error: 'Erro',
+  retry: 'Tentar novamente',
+  inputPlaceholder: 'Digite sua mensagem...',
+  attachFile: 'Anexar arquivo',
+  removeAttachment: 'Remover {name}',
+  toolRunning: 'Executando {name}...',
+  toolDone: '{name} concluído',
+  toolFailed: 'Falha em {name}',
+  typing: 'Digitando...',
+  replyAnnouncement: '{name} respondeu: {message}',
+  goodResponse: 'Boa resposta',
+  badResponse: 'Resposta ruim',
+  feedbackPrompt: 'O que poderia ser melhor? (opcional)',
+  skip: 'Pular',
+  remainingMessages: 'Mensagens restantes: {count}',
+  remainingTokens: 'Tokens restantes: {count}',
+  remainingBudget: 'Saldo restante: {amount}',
+  sources: 'Fontes',
+  suggestions: 'Sugestões de perguntas',
+  handoffConnecting: 'Transferindo você para um atendente...',
+  handoffJoined: '{name} entrou na conversa.',
+  handoffEnded: 'Atendimento encerrado. Você voltou a falar com o assistente virtual.',
+  agentTyping: '{name} está digitando…',
+  agentLabel: 'Atendente',
+  endHandoff: 'Encerrar atendimento',
+  exportChat: 'Exportar conversa',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportHtml: 'Página para imprimir (.html)',
+  importChat: 'Importar conversa (.json)',
+  exportedAt: 'Exportada em {date}',
+  youLabel: 'Você',
+  errors: {
+    auth: 'Chave de API inválida. Verifique a chave configurada no arquivo .env.',
+    missing_api_key: 'Chave de API não configurada. Adicione a chave no arquivo .env ou em providerOptions.',
+    missing_endpoint: 'Endpoint do proxy não configurado. Informe a prop endpoint no Chatbot.',
+    quota: 'Cota de uso excedida. Verifique seu plano ou adicione créditos.',
+    rate_limit: 'Muitas requisições. Aguarde um momento antes de tentar novamente.',
+    network: 'Erro de conexão. Verifique sua internet e tente novamente.',
+    server: 'O serviço está instável no momento. Tente novamente em instantes.',
+    timeout: 'A requisição demorou muito para responder. Tente novamente.',
+    model_not_found: 'Modelo especificado não existe ou você não tem acesso a ele.',
+    aborted: 'Mensagem cancelada. Você pode enviar uma nova mensagem.',
+    empty_response: 'Nenhuma resposta foi gerada pelo modelo.',
+    limit_reached: 'Você atingiu o limite de mensagens desta conversa. Limpe o chat para continuar.',
+    turn_limit_reached: 'Você atingiu o limite de mensagens desta sessão.',
+    window_limit_reached: 'Você enviou muitas mensagens em pouco tempo. Tente novamente em {minutes} min.',
+    token_limit_reached: 'Você atingiu o limite de uso desta sessão.',
+    cost_limit_reached: 'Você atingiu o limite de gastos desta sessão.',
+    unsupported_file: 'Tipo de arquivo não suportado: {name}',
+    file_too_large: '{name} é maior que o limite de {maxMb} MB',
+    too_many_files: 'Máximo de {max} arquivos por mensagem',
+    system_prompt_unavailable: 'Não foi possível carregar as instruções do assistente ({source}). Tente novamente mais tarde.',
+    handoff_unavailable: 'Nenhum atendente disponível no momento. Tente novamente mais tarde.',
+    invalid_transcript: 'Arquivo de conversa inválido ou de uma versão não suportada.',
+    storage_failed: 'Não foi possível salvar o histórico neste navegador. As mensagens novas podem se perder ao recarregar a página.',
+    unknown: 'Ocorreu um erro inesperado. Tente novamente.',
+  },
+};
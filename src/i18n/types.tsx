@@ -0,0 +1,66 @@
+import type { ChatbotErrorCode } from '../provider/errors';
+
+/** Pode conter `{nome}` para valores interpolados por `formatMessage`. */
+export type ChatbotStrings = {
+  chatbotName: string;
+  welcomeBubble: string;
+  firstBotMessage: string;
+  avatarAlt: string;
+  openChat: string;
+  closeChat: string;
+  clearChat: string;
+  threads: string;
+  newThread: string;
+  threadName: string;
+  rename: string;
+  renameThread: string;
+  delete: string;
+  deleteThread: string;
+  copy: string;
+  copied: string;
+  edit: string;
+  editMessage: string;
+  regenerate: string;
+  cancel: string;
+  send: string;
+  error: string;
+  retry: string;
+  inputPlaceholder: string;
+  attachFile: string;
+  removeAttachment: string;
+  toolRunning: string;
+  toolDone: string;
+  toolFailed: string;
+  typing: string;
+  /** Lido pelo leitor de tela quando uma resposta termina. */
+  replyAnnouncement: string;
+  goodResponse: string;
+  badResponse: string;
+  feedbackPrompt: string;
+  skip: string;
+  remainingMessages: string;
+  remainingTokens: string;
+  remainingBudget: string;
+  sources: string;
+  suggestions: string;
+  handoffConnecting: string;
+  handoffJoined: string;
+  handoffEnded: string;
+  agentTyping: string;
+  agentLabel: string;
+  endHandoff: string;
+  exportChat: string;
+  exportMarkdown: string;
+  exportJson: string;
+  exportHtml: string;
+  importChat: string;
+  exportedAt: string;
+  youLabel: string;
+  errors: Record<ChatbotErrorCode, string>;
+};
+
+export type ChatbotStringOverrides = Partial<Omit<ChatbotStrings, 'errors'>> & {
+  errors?: Partial<ChatbotStrings['errors']>;
+};
+
+export type ChatbotLocale = 'pt-BR' | 'en' | 'es' | (string & {});
@@ -0,0 +1,410 @@
+/**
+ * Strings e `{ url }` são baixados (Markdown, texto ou HTML, de preferência
+ * do mesmo site). `{ title, content }` é um documento já em memória.
+ */
+export type KnowledgeSource =
+  | string
+  | { url: string; title?: string }
+  | { title: string; content: string; url?: string };
+
+/** Recebe textos e devolve um vetor por texto, na mesma ordem. */
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+export type KnowledgeOptions = {
+  sources: KnowledgeSource[];
+  /** Sem embedder, a busca usa BM25 sobre as palavras dos trechos. */
+  embedder?: Embedder;
+  /** Trechos enviados por pergunta. Padrão: 4. */
+  topK?: number;
+  /** Tamanho máximo de cada trecho, em caracteres. Padrão: 1200. */
+  chunkSize?: number;
+  /** Trechos com pontuação menor ou igual são ignorados. Padrão: 0. */
+  minScore?: number;
+  /** Texto antes dos trechos, explicando ao modelo como usá-los e citá-los. */
+  instructions?: string;
+};
+
+export type KnowledgeDocument = {
+  title: string;
+  content: string;
+  url?: string;
+};
+
+export type KnowledgeChunk = {
+  id: string;
+  documentTitle: string;
+  url?: string;
+  /** Seções até o trecho, ex.: `Pagamentos › Boleto`. */
+  heading?: string;
+  text: string;
+};
+
+export type KnowledgePassage = KnowledgeChunk & { score: number };
+
+/** `index` é o número que o modelo usa para citar, como em `[1]`. */
+export type Citation = {
+  index: number;
+  title: string;
+  url?: string;
+};
+
+export type KnowledgeBase = {
+  /** Resolve quando os documentos estiverem indexados. Nunca rejeita. */
+  ready: Promise<void>;
+  search: (query: string, topK?: number) => Promise<KnowledgePassage[]>;
+  instructions?: string;
+};
+
+export const DEFAULT_KNOWLEDGE_INSTRUCTIONS =
+  'Responda com base nos trechos da base de conhecimento abaixo. Ao usar um trecho, ' +
+  'cite a fonte com o número entre colchetes, como [1]. Se a resposta não estiver ' +
+  'nos trechos, diga que não encontrou essa informação.';
+
+const DEFAULT_TOP_K = 4;
+const DEFAULT_CHUNK_SIZE = 1200;
+const EMBEDDING_BATCH_SIZE = 64;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  // pt
+  'de', 'da', 'do', 'das', 'dos', 'em', 'no', 'na', 'nos', 'nas', 'um', 'uma', 'uns', 'umas',
+  'por', 'para', 'com', 'que', 'se', 'ao', 'aos', 'ou', 'como', 'mais', 'mas', 'eu', 'voce',
+  'meu', 'minha', 'seu', 'sua', 'ele', 'ela', 'isso', 'esse', 'essa', 'este', 'esta', 'qual',
+  // en
+  'the', 'of', 'and', 'to', 'in', 'is', 'it', 'for', 'on', 'with', 'as', 'an', 'be', 'are',
+  'this', 'that', 'my', 'your', 'do', 'does', 'how', 'what', 'can', 'at', 'by', 'or', 'from',
+  // es
+  'el', 'la', 'los', 'las', 'del', 'al', 'en', 'es', 'un', 'una', 'por', 'con', 'que', 'mi',
+  'su', 'tu', 'lo', 'como', 'cual',
+]);
+
+/** Minúsculas, sem acento e sem plural simples, para casar "Pagamentos" com "pagamento". */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) => (token.length > 4 && token.endsWith('s') ? token.slice(0, -1) : token));
+}
+
+function htmlToMarkdown(html: string): { title?: string; text: string } {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  doc.querySelectorAll('script, style, noscript, nav, footer').forEach((el) => el.remove());
+
+  // Títulos viram `#` para o chunking seguir as seções; blocos ganham quebra de parágrafo.
+  doc.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach((el) => {
+    el.textContent = `\n\n${'#'.repeat(Number(el.tagName[1]))} ${el.textContent?.trim()}\n\n`;
+  });
+  doc.querySelectorAll('p, li, tr, br, pre, blockquote').forEach((el) => el.append('\n\n'));
+
+  const root = doc.querySelector('main, article') ?? doc.body;
+
+  return { title: doc.title || undefined, text: root?.textContent ?? '' };
+}
+
+async function loadDocument(source: KnowledgeSource): Promise<KnowledgeDocument> {
+  if (typeof source === 'object' && 'content' in source) {
+    return source;
+  }
+
+  const { url, title } = typeof source === 'string' ? { url: source, title: undefined } : source;
+  const res = await fetch(url);
+
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status}`);
+  }
+
+  const body = await res.text();
+
+  if (res.headers.get('content-type')?.includes('text/html')) {
+    const page = htmlToMarkdown(body);
+    return { url, title: title ?? page.title ?? url, content: page.text };
+  }
+
+  const firstHeading = body.match(/^#\s+(.+)$/m)?.[1].trim();
+  return { url, title: title ?? firstHeading ?? url, content: body };
+}
+
+function splitLongText(text: string, chunkSize: number): string[] {
+  if (text.length <= chunkSize) return [text];
+
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (current && current.length + sentence.length + 1 > chunkSize) {
+      pieces.push(current);
+      current = '';
+    }
+
+    // Frase sozinha maior que o limite: corta no tamanho.
+    for (let start = 0; start < sentence.length; start += chunkSize) {
+      const part = sentence.slice(start, start + chunkSize);
+
+      if (part.length === chunkSize) {
+        if (current) pieces.push(current);
+        pieces.push(part);
+        current = '';
+      } else {
+        current = current ? `${current} ${part}` : part;
+      }
+    }
+  }
+
+  if (current) pieces.push(current);
+
+  return pieces;
+}
+
+/**
+ * Divide por seções de Markdown e junta parágrafos até `chunkSize`
+ * caracteres. Cada trecho guarda o caminho de títulos até ele.
+ */
+export function chunkDocument(
+  document: KnowledgeDocument,
+  chunkSize = DEFAULT_CHUNK_SIZE,
+  idPrefix = document.url ?? document.title
+): KnowledgeChunk[] {
+  const sections: { heading: string[]; lines: string[] }[] = [{ heading: [], lines: [] }];
+  const headings: string[] = [];
+  let inCode = false;
+
+  for (const line of document.content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inCode = !inCode;
+
+    const match = !inCode && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+
+    if (match) {
+      const level = match[1].length;
+      headings.splice(level - 1, headings.length, match[2]);
+      sections.push({ heading: headings.filter((h) => h && h !== document.title), lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const chunks: KnowledgeChunk[] = [];
+
+  for (const section of sections) {
+    const paragraphs = section.lines
+      .join('\n')
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .flatMap((paragraph) => splitLongText(paragraph, chunkSize));
+
+    let current = '';
+
+    const flush = () => {
+      if (!current) return;
+
+      chunks.push({
+        id: `${idPrefix}#${chunks.length}`,
+        documentTitle: document.title,
+        ...(document.url ? { url: document.url } : {}),
+        ...(section.heading.length ? { heading: section.heading.join(' › ') } : {}),
+        text: current,
+      });
+      current = '';
+    };
+
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length + 2 > chunkSize) flush();
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+
+    flush();
+  }
+
+  return chunks;
+}
+
+function createBm25Index(chunks: KnowledgeChunk[]): (query: string) => number[] {
+  const documents = chunks.map((chunk) =>
+    tokenize(`${chunk.documentTitle} ${chunk.heading ?? ''} ${chunk.text}`)
+  );
+  const averageLength =
+    documents.reduce((total, tokens) => total + tokens.length, 0) / (documents.length || 1);
+
+  const frequencies = documents.map((tokens) => {
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+
+  for (const counts of frequencies) {
+    for (const token of counts.keys()) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+
+  return (query) => {
+    const terms = [...new Set(tokenize(query))];
+
+    return frequencies.map((counts, index) => {
+      const length = documents[index].length;
+      let score = 0;
+
+      for (const term of terms) {
+        const frequency = counts.get(term);
+        if (!frequency) continue;
+
+        const df = documentFrequency.get(term)!;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+
+        score +=
+          (idf * frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength));
+      }
+
+      return score;
+    });
+  };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function embedChunks(embedder: Embedder, chunks: KnowledgeChunk[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+
+  for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const embedded = await embedder(
+      batch.map((chunk) => [chunk.documentTitle, chunk.heading, chunk.text].filter(Boolean).join('\n'))
+    );
+
+    if (embedded.length !== batch.length) {
+      throw new Error(`Embedder devolveu ${embedded.length} vetores para ${batch.length} textos`);
+    }
+
+    vectors.push(...embedded);
+  }
+
+  return vectors;
+}
+
+/**
+ * Baixa e indexa os documentos no navegador. A indexação começa na hora;
+ * `search` espera por ela. Documentos que falham ficam de fora, com um
+ * aviso no console, e um embedder com erro faz a busca voltar para o BM25.
+ */
+export function createKnowledgeBase(options: KnowledgeOptions): KnowledgeBase {
+  const { embedder, chunkSize = DEFAULT_CHUNK_SIZE, topK = DEFAULT_TOP_K, minScore = 0 } = options;
+
+  let chunks: KnowledgeChunk[] = [];
+  let rank: (query: string) => Promise<number[]> = async () => [];
+
+  const ready = (async () => {
+    const documents = await Promise.all(
+      options.sources.map(async (source, index) => {
+        try {
+          return chunkDocument(await loadDocument(source), chunkSize, String(index));
+        } catch (error) {
+          const name = typeof source === 'string' ? source : source.url ?? source.title;
+          console.warn(`Documento ${name} não entrou na base de conhecimento`, error);
+          return [];
+        }
+      })
+    );
+
+    chunks = documents.flat();
+
+    const bm25 = createBm25Index(chunks);
+    rank = async (query) => bm25(query);
+
+    if (!embedder || chunks.length === 0) return;
+
+    try {
+      const vectors = await embedChunks(embedder, chunks);
+
+      rank = async (query) => {
+        try {
+          const [queryVector] = await embedder([query]);
+          return vectors.map((vector) => cosineSimilarity(queryVector, vector));
+        } catch (error) {
+          console.warn('Erro no embedder, buscando com BM25', error);
+          return bm25(query);
+        }
+      };
+    } catch (error) {
+      console.warn('Erro ao gerar embeddings da base de conhecimento, usando BM25', error);
+    }
+  })();
+
+  async function search(query: string, limit = topK): Promise<KnowledgePassage[]> {
+    await ready;
+
+    const scores = await rank(query);
+
+    return chunks
+      .map((chunk, index) => ({ ...chunk, score: scores[index] ?? 0 }))
+      .filter((passage) => passage.score > minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  return {
+    ready,
+    search,
+    instructions: options.instructions ?? DEFAULT_KNOWLEDGE_INSTRUCTIONS,
+  };
+}
+
+/** Numera por documento: trechos do mesmo documento dividem a mesma citação. */
+export function formatKnowledge(
+  passages: KnowledgePassage[],
+  instructions = DEFAULT_KNOWLEDGE_INSTRUCTIONS
+): { text: string; citations: Citation[] } {
+  const citations: Citation[] = [];
+
+  const blocks = passages.map((passage) => {
+    let citation = citations.find(
+      (c) => c.title === passage.documentTitle && c.url === passage.url
+    );
+
+    if (!citation) {
+      citation = {
+        index: citations.length + 1,
+        title: passage.documentTitle,
+        ...(passage.url ? { url: passage.url } : {}),
+      };
+      citations.push(citation);
+    }
+
+    const heading = passage.heading ? ` › ${passage.heading}` : '';
+    return `[${citation.index}] ${passage.documentTitle}${heading}\n${passage.text}`;
+  });
+
+  if (blocks.length === 0) {
+    return { text: '', citations };
+  }
+
+  return { text: `${instructions}\n\n${blocks.join('\n\n')}`, citations };
+}
+
+/** As fontes citadas com `[n]` na resposta; sem nenhuma marcação, todas as enviadas. */
+export function citedSources(answer: string, citations: Citation[]): Citation[] {
+  const cited = new Set([...answer.matchAll(/\[(\d+)\]/g)].map((match) => Number(match[1])));
+  const used = citations.filter((citation) => cited.has(citation.index));
+
+  return used.length > 0 ? used : citations;
+}
@@ -0,0 +1,138 @@
+import { ChatbotError } from '../provider/errors';
+
+/**
+ * Strings que parecem caminho ou URL (`/llms.md`, `https://...`) são
+ * baixadas; as demais são o próprio texto. Use `{ url }` ou `{ text }`
+ * para não depender dessa regra.
+ */
+export type SystemPromptSource =
+  | string
+  | { url: string; optional?: boolean }
+  | { text: string }
+  | (() => string | Promise<string>);
+
+export type SystemPrompt = SystemPromptSource | SystemPromptSource[];
+
+type PromptVariableValue = string | number | undefined;
+
+/** Funções são avaliadas a cada carregamento do prompt. */
+export type PromptVariables = Record<string, PromptVariableValue | (() => PromptVariableValue)>;
+
+const URL_PATTERN = /^(https?:\/\/|\.{0,2}\/)\S*$/;
+
+/** Arquivos baixados ficam em memória durante a sessão da página. */
+const cache = new Map<string, Promise<string>>();
+
+export function clearSystemPromptCache() {
+  cache.clear();
+}
+
+function fetchPrompt(url: string): Promise<string> {
+  const cached = cache.get(url);
+  if (cached) return cached;
+
+  const request = fetch(url).then(async (res) => {
+    // Servidores de dev (Vite, CRA) respondem 200 com o index.html para qualquer caminho.
+    const isFallbackPage =
+      res.headers.get('content-type')?.includes('text/html') && !/\.html?$/.test(url);
+
+    if (!res.ok || isFallbackPage) {
+      throw new Error(`HTTP ${isFallbackPage ? 404 : res.status}`);
+    }
+
+    return res.text();
+  });
+
+  cache.set(url, request);
+  request.catch(() => cache.delete(url));
+
+  return request;
+}
+
+function describeSource(source: SystemPromptSource, index: number): string {
+  if (typeof source === 'string') return URL_PATTERN.test(source) ? source : `#${index + 1}`;
+  if (typeof source === 'function') return source.name || `#${index + 1}`;
+  return 'url' in source ? source.url : `#${index + 1}`;
+}
+
+async function loadSource(source: SystemPromptSource): Promise<string> {
+  if (typeof source === 'function') return source();
+  if (typeof source === 'string') return URL_PATTERN.test(source) ? fetchPrompt(source) : source;
+
+  return 'url' in source ? fetchPrompt(source.url) : source.text;
+}
+
+/** Troca `{{nome}}` pelo valor. Variáveis sem valor viram texto vazio. */
+export function fillTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => {
+    if (variables[name] === undefined) {
+      console.warn(`Variável {{${name}}} sem valor no prompt de sistema`);
+      return '';
+    }
+
+    return variables[name];
+  });
+}
+
+/** `locale`, `pageUrl`, `pageTitle` e `date` estão sempre disponíveis e podem ser sobrescritas. */
+export function resolvePromptVariables(
+  variables: PromptVariables = {},
+  locale?: string
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+
+  if (locale) resolved.locale = locale;
+  resolved.date = new Date().toLocaleDateString(locale);
+
+  if (typeof window !== 'undefined') {
+    resolved.pageUrl = window.location.href;
+    resolved.pageTitle = document.title;
+  }
+
+  for (const [name, value] of Object.entries(variables)) {
+    const current = typeof value === 'function' ? value() : value;
+
+    if (current !== undefined) {
+      resolved[name] = String(current);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Carrega e junta as fontes na ordem dada, depois preenche o template.
+ * Uma fonte obrigatória que falhar vira um `ChatbotError` exibido no chat.
+ */
+export async function loadSystemPrompt(
+  prompt: SystemPrompt,
+  variables: Record<string, string> = {}
+): Promise<string> {
+  const sources = Array.isArray(prompt) ? prompt : [prompt];
+
+  const parts = await Promise.all(
+    sources.map(async (source, index) => {
+      try {
+        return await loadSource(source);
+      } catch (error) {
+        const name = describeSource(source, index);
+
+        if (typeof source === 'object' && 'url' in source && source.optional) {
+          console.warn(`Prompt de sistema ${name} não encontrado, seguindo sem ele`, error);
+          return '';
+        }
+
+        throw new ChatbotError(
+          'system_prompt_unavailable',
+          `Não foi possível carregar o prompt de sistema ${name}`,
+          { params: { source: name }, cause: error }
+        );
+      }
+    })
+  );
+
+  return parts
+    .map((part) => fillTemplate(part, variables).trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -0,0 +1,385 @@
+import { toAnthropicContent } from './attachments';
+import type { AnthropicContentBlock } from './attachments';
+import { estimateTokens, fitContext, resolveContextBudget } from './context';
+import { getEnvVariable } from './env';
+import { ChatbotError, errorFromResponse } from './errors';
+import type { ChatbotErrorCode } from './errors';
+import { withRetry } from './retry';
+import { readServerSentEvents } from './sse';
+import { MAX_TOOL_ROUNDS, runToolCall, toAnthropicTools } from './tools';
+import type { ToolCall } from './tools';
+import type {
+  ChatHistoryMessage,
+  ChatProvider,
+  CompleteOptions,
+  PromptOptions,
+  ProviderOptions,
+} from './types';
+
+type AnthropicBlock =
+  | AnthropicContentBlock
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+type AnthropicMessage = {
+  role: 'user' | 'assistant';
+  content: string | AnthropicBlock[];
+};
+
+function toBlocks(content: AnthropicMessage['content']): AnthropicBlock[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/** A API exige um objeto em `input`; argumentos malformados já viraram erro para o modelo. */
+function parseToolInput(json: string): unknown {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Tipos de erro que a Anthropic envia no meio do stream. */
+const STREAM_ERROR_CODES: Record<string, ChatbotErrorCode> = {
+  authentication_error: 'auth',
+  permission_error: 'auth',
+  not_found_error: 'model_not_found',
+  rate_limit_error: 'rate_limit',
+  overloaded_error: 'server',
+  api_error: 'server',
+};
+
+export function createAnthropicProvider(options: ProviderOptions = {}): ChatProvider {
+  const apiKey = options.apiKey || getEnvVariable('VITE_ANTHROPIC_API_KEY', 'REACT_APP_ANTHROPIC_API_KEY');
+  const model = options.model || getEnvVariable('VITE_ANTHROPIC_MODEL', 'REACT_APP_ANTHROPIC_MODEL', 'claude-3-5-haiku-latest') || 'claude-3-5-haiku-latest';
+  const baseURL = options.baseURL || 'https://api.anthropic.com/v1';
+  const maxTokens = options.maxTokens || 1024;
+  const retry = options.retry;
+
+  if (!apiKey) {
+    throw new ChatbotError(
+      'missing_api_key',
+      'Anthropic API Key não configurada. Adicione VITE_ANTHROPIC_API_KEY ou REACT_APP_ANTHROPIC_API_KEY no arquivo .env'
+    );
+  }
+
+  let system = '';
+  const messages: AnthropicMessage[] = [];
+
+  async function init(
+    initialPrompts: string,
+    history: ChatHistoryMessage[] = []
+  ): Promise<boolean> {
+    messages.length = 0;
+    system = initialPrompts;
+
+    // A Anthropic exige papéis alternados, então turnos seguidos do mesmo
+    // papel (ex.: uma pergunta que terminou em erro) são agrupados e uma
+    // pergunta final sem resposta é descartada.
+    for (const { role, content, attachments } of history) {
+      const message = { role, content: toAnthropicContent(content, attachments) };
+      const last = messages[messages.length - 1];
+
+      if (last?.role === role) {
+        last.content = [...toBlocks(last.content), ...toBlocks(message.content)];
+      } else if (messages.length > 0 || role === 'user') {
+        messages.push(message);
+      }
+    }
+
+    if (messages[messages.length - 1]?.role === 'user') {
+      messages.pop();
+    }
+
+    return true;
+  }
+
+  async function complete(
+    instructions: string,
+    text: string,
+    options: CompleteOptions = {}
+  ): Promise<string> {
+    const { params = {}, signal } = options;
+
+    const data = await withRetry(
+      async () => {
+        const res = await fetch(`${baseURL}/messages`, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'x-api-key': apiKey!,
+            'anthropic-version': '2023-06-01',
+            'anthropic-dangerous-direct-browser-access': 'true',
+          },
+          body: JSON.stringify({
+            model: params.model || model,
+            max_tokens: params.maxTokens || maxTokens,
+            temperature: params.temperature,
+            system: instructions,
+            messages: [{ role: 'user', content: text }],
+          }),
+          signal,
+        });
+
+        if (!res.ok) {
+          const detail = await res.text().catch(() => '');
+          throw errorFromResponse(res, `Erro na API da Anthropic (${res.status}): ${detail}`);
+        }
+
+        return res.json();
+      },
+      signal,
+      retry
+    );
+
+    if (data.usage) {
+      options.onUsage?.({
+        promptTokens: data.usage.input_tokens ?? 0,
+        completionTokens: data.usage.output_tokens ?? 0,
+        totalTokens: (data.usage.input_tokens ?? 0) + (data.usage.output_tokens ?? 0),
+        model: data.model,
+      });
+    }
+
+    return (data.content ?? [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+  }
+
+  async function prompt(
+    text: string,
+    signal?: AbortSignal,
+    options: PromptOptions = {}
+  ): Promise<ReadableStream<string>> {
+    const params = options.params ?? {};
+    const stop = typeof params.stop === 'string' ? [params.stop] : params.stop;
+    const tools = options.tools ?? [];
+    const activeModel = params.model || model;
+    const context = options.context ?? {};
+    // Os trechos da base de conhecimento vão junto com o system prompt, só nesta chamada.
+    const instructions = [system, options.knowledge].filter(Boolean).join('\n\n');
+
+    async function createRequest(round: number): Promise<ReadableStream<Uint8Array>> {
+      // O system prompt fica fora de `messages`, então a Anthropic só usa janela deslizante.
+      const contextMessages = await fitContext(messages, {
+        budget:
+          resolveContextBudget(activeModel, context, params.maxTokens || maxTokens) -
+          (context.tokenCounter ?? estimateTokens)(instructions),
+        strategy: 'sliding-window',
+        tokenCounter: context.tokenCounter,
+        createSummary: (content): AnthropicMessage => ({ role: 'user', content }),
+      });
+
+      return withRetry(
+        async () => {
+          const res = await fetch(`${baseURL}/messages`, {
+            method: 'POST',
+            headers: {
+              'content-type': 'application/json',
+              'x-api-key': apiKey!,
+              'anthropic-version': '2023-06-01',
+              'anthropic-dangerous-direct-browser-access': 'true',
+            },
+            body: JSON.stringify({
+              model: activeModel,
+              max_tokens: params.maxTokens || maxTokens,
+              temperature: params.temperature,
+              top_p: params.topP,
+              stop_sequences: stop,
+              ...(instructions ? { system: instructions } : {}),
+              ...(tools.length > 0
+                ? {
+                    tools: toAnthropicTools(tools),
+                    tool_choice: { type: round < MAX_TOOL_ROUNDS ? 'auto' : 'none' },
+                  }
+                : {}),
+              messages: contextMessages,
+              stream: true,
+            }),
+            signal,
+          });
+
+          if (!res.ok || !res.body) {
+            const detail = await res.text().catch(() => '');
+            throw errorFromResponse(res, `Erro na API da Anthropic (${res.status}): ${detail}`);
+          }
+
+          return res.body;
+        },
+        signal,
+        retry
+      );
+    }
+
+    const userContent = toAnthropicContent(text, options.attachments);
+    const last = messages[messages.length - 1];
+
+    // Depois de um stream que falhou, a pergunta anterior ficou sem resposta;
+    // as duas vão juntas para manter os papéis alternados.
+    const merged = last?.role === 'user';
+    const previousContent = last?.content;
+
+    if (merged) {
+      last.content = [...toBlocks(last.content), ...toBlocks(userContent)];
+    } else {
+      messages.push({ role: 'user', content: userContent });
+    }
+
+    let firstBody: ReadableStream<Uint8Array>;
+
+    try {
+      firstBody = await createRequest(0);
+    } catch (error) {
+      if (merged) {
+        last.content = previousContent!;
+      } else {
+        messages.pop();
+      }
+
+      if (signal?.aborted) {
+        throw new ChatbotError('aborted', 'Request aborted by user');
+      }
+
+      throw error;
+    }
+
+    return new ReadableStream({
+      async start(controller) {
+        try {
+          let body = firstBody;
+
+          for (let round = 0; ; round++) {
+            let assistantMessage = '';
+            let inputTokens = 0;
+            let outputTokens = 0;
+            let responseModel: string | undefined;
+            // Blocos `tool_use` por índice; os argumentos chegam em pedaços de JSON.
+            const toolCalls: ToolCall[] = [];
+
+            for await (const event of readServerSentEvents(body)) {
+              if (signal?.aborted) {
+                controller.close();
+                return;
+              }
+
+              const payload = JSON.parse(event.data);
+
+              // A entrada vem no `message_start`; a saída, acumulada, nos `message_delta`.
+              if (payload.type === 'message_start') {
+                inputTokens = payload.message?.usage?.input_tokens ?? 0;
+                outputTokens = payload.message?.usage?.output_tokens ?? 0;
+                responseModel = payload.message?.model;
+              }
+
+              if (payload.type === 'message_delta' && payload.usage) {
+                outputTokens = payload.usage.output_tokens ?? outputTokens;
+              }
+
+              if (
+                payload.type === 'content_block_start' &&
+                payload.content_block?.type === 'tool_use'
+              ) {
+                toolCalls[payload.index] = {
+                  id: payload.content_block.id,
+                  type: 'function',
+                  function: { name: payload.content_block.name, arguments: '' },
+                };
+              }
+
+              if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+                assistantMessage += payload.delta.text;
+                controller.enqueue(payload.delta.text);
+              }
+
+              if (
+                payload.type === 'content_block_delta' &&
+                payload.delta?.type === 'input_json_delta' &&
+                toolCalls[payload.index]
+              ) {
+                toolCalls[payload.index].function.arguments += payload.delta.partial_json;
+              }
+
+              if (payload.type === 'error') {
+                throw new ChatbotError(
+                  STREAM_ERROR_CODES[payload.error?.type] ?? 'unknown',
+                  payload.error?.message || 'Erro no stream da Anthropic'
+                );
+              }
+
+              if (payload.type === 'message_stop') {
+                break;
+              }
+            }
+
+            if (inputTokens || outputTokens) {
+              options.onUsage?.({
+                promptTokens: inputTokens,
+                completionTokens: outputTokens,
+                totalTokens: inputTokens + outputTokens,
+                model: responseModel,
+              });
+            }
+
+            const calls = toolCalls.filter(Boolean);
+
+            if (calls.length === 0) {
+              if (assistantMessage) {
+                messages.push({ role: 'assistant', content: assistantMessage });
+              }
+
+              break;
+            }
+
+            const results: AnthropicBlock[] = [];
+
+            for (const call of calls) {
+              const result = await runToolCall(call, tools, signal, options.onToolActivity);
+
+              // Cancelado durante a ferramenta: o contexto pode já ter sido reiniciado.
+              if (signal?.aborted) {
+                controller.close();
+                return;
+              }
+
+              results.push({ type: 'tool_result', tool_use_id: call.id, content: result });
+            }
+
+            // A chamada e o resultado entram juntos: um `tool_use` sem resposta invalida o histórico.
+            messages.push(
+              {
+                role: 'assistant',
+                content: [
+                  ...(assistantMessage ? [{ type: 'text' as const, text: assistantMessage }] : []),
+                  ...calls.map(
+                    (call): AnthropicBlock => ({
+                      type: 'tool_use',
+                      id: call.id,
+                      name: call.function.name,
+                      input: parseToolInput(call.function.arguments),
+                    })
+                  ),
+                ],
+              },
+              { role: 'user', content: results }
+            );
+
+            body = await createRequest(round + 1);
+          }
+
+          controller.close();
+        } catch (error) {
+          if (signal?.aborted) {
+            controller.close();
+            return;
+          }
+
+          console.error('Erro no stream da Anthropic:', error);
+          controller.error(error);
+        }
+      },
+    });
+  }
+
+  return { init, prompt, complete, model };
+}
@@ -0,0 +1,152 @@
+import { ChatbotError } from './errors';
+
+export type Attachment = {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  kind: 'image' | 'text';
+  /** Data URL para imagens, conteúdo do arquivo para texto. */
+  data: string;
+  /** O conteúdo não coube no storage e não foi salvo; `data` fica vazio. */
+  omitted?: boolean;
+};
+
+export type AttachmentLimits = {
+  maxFileSize: number;
+  maxFiles: number;
+  acceptedTypes: string[];
+};
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxFileSize: 5 * 1024 * 1024,
+  maxFiles: 4,
+  acceptedTypes: [
+    'image/png',
+    'image/jpeg',
+    'image/webp',
+    'image/gif',
+    'text/plain',
+    'text/markdown',
+    'text/csv',
+    'application/json',
+  ],
+};
+
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+function readFile(file: File, as: 'dataURL' | 'text'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+
+    if (as === 'dataURL') {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+}
+
+function matchesType(file: File, accepted: string[]): boolean {
+  return accepted.some((type) =>
+    type.endsWith('/*') ? file.type.startsWith(type.slice(0, -1)) : file.type === type
+  );
+}
+
+/**
+ * Valida e lê um arquivo escolhido pelo usuário. Imagens viram data URL e
+ * arquivos de texto são lidos como texto para serem enviados inline.
+ */
+export async function readAttachment(
+  file: File,
+  limits: AttachmentLimits = DEFAULT_ATTACHMENT_LIMITS
+): Promise<Attachment> {
+  if (!matchesType(file, limits.acceptedTypes)) {
+    throw new ChatbotError('unsupported_file', `Tipo de arquivo não suportado: ${file.name}`, {
+      params: { name: file.name },
+    });
+  }
+
+  if (file.size > limits.maxFileSize) {
+    const maxMb = (limits.maxFileSize / 1024 / 1024).toFixed(1);
+    throw new ChatbotError('file_too_large', `${file.name} é maior que o limite de ${maxMb} MB`, {
+      params: { name: file.name, maxMb },
+    });
+  }
+
+  const kind = file.type.startsWith('image/') ? 'image' : 'text';
+
+  return {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    kind,
+    data: await readFile(file, kind === 'image' ? 'dataURL' : 'text'),
+  };
+}
+
+function textPart(attachment: Attachment): string {
+  if (attachment.omitted) {
+    return `Arquivo anexado "${attachment.name}" (conteúdo não disponível no histórico)`;
+  }
+
+  return `Arquivo anexado "${attachment.name}":\n\n${attachment.data}`;
+}
+
+/**
+ * Cópia dos anexos para gravar no histórico: o conteúdo dos maiores que
+ * `maxSize` caracteres fica de fora e só o nome e o tipo são salvos.
+ */
+export function compactAttachments(attachments: Attachment[], maxSize?: number): Attachment[] {
+  if (maxSize === undefined) return attachments;
+
+  return attachments.map((attachment) =>
+    attachment.data.length > maxSize ? { ...attachment, data: '', omitted: true } : attachment
+  );
+}
+
+export function toOpenAIContent(
+  text: string,
+  attachments: Attachment[] = []
+): string | OpenAIContentPart[] {
+  if (attachments.length === 0) return text;
+
+  return [
+    ...(text ? [{ type: 'text' as const, text }] : []),
+    ...attachments.map((attachment): OpenAIContentPart =>
+      attachment.kind === 'image' && !attachment.omitted
+        ? { type: 'image_url', image_url: { url: attachment.data } }
+        : { type: 'text', text: textPart(attachment) }
+    ),
+  ];
+}
+
+export function toAnthropicContent(
+  text: string,
+  attachments: Attachment[] = []
+): string | AnthropicContentBlock[] {
+  if (attachments.length === 0) return text;
+
+  return [
+    ...attachments.map((attachment): AnthropicContentBlock => {
+      if (attachment.kind === 'text' || attachment.omitted) {
+        return { type: 'text', text: textPart(attachment) };
+      }
+
+      const [header, data] = attachment.data.split(',', 2);
+      const mediaType = header.match(/^data:([^;]+)/)?.[1] ?? attachment.type;
+
+      return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+    }),
+    ...(text ? [{ type: 'text' as const, text }] : []),
+  ];
+}
@@ -0,0 +1,30 @@
+import { AzureOpenAI } from 'openai';
+import { getEnvVariable } from './env';
+import { ChatbotError } from './errors';
+import { createChatCompletionsProvider } from './openaiProvider';
+import type { ChatProvider, ProviderOptions } from './types';
+
+export function createAzureOpenAIProvider(options: ProviderOptions = {}): ChatProvider {
+  const apiKey = options.apiKey || getEnvVariable('VITE_AZURE_OPENAI_API_KEY', 'REACT_APP_AZURE_OPENAI_API_KEY');
+  const endpoint = options.endpoint || getEnvVariable('VITE_AZURE_OPENAI_ENDPOINT', 'REACT_APP_AZURE_OPENAI_ENDPOINT');
+  const deployment = options.deployment || options.model || getEnvVariable('VITE_AZURE_OPENAI_DEPLOYMENT', 'REACT_APP_AZURE_OPENAI_DEPLOYMENT');
+  const apiVersion = options.apiVersion || '2024-10-21';
+
+  if (!apiKey || !endpoint || !deployment) {
+    throw new ChatbotError(
+      'missing_api_key',
+      'Azure OpenAI não configurado. Informe apiKey, endpoint e deployment (ou VITE_AZURE_OPENAI_* no arquivo .env)'
+    );
+  }
+
+  const openai = new AzureOpenAI({
+    apiKey,
+    endpoint,
+    deployment,
+    apiVersion,
+    maxRetries: 0,
+    dangerouslyAllowBrowser: true,
+  });
+
+  return createChatCompletionsProvider(openai, deployment, options.retry);
+}
@@ -0,0 +1,240 @@
+export type ContextStrategy = 'sliding-window' | 'summarize';
+
+export type ContextOptions = {
+  budget?: number | Record<string, number>;
+  strategy?: ContextStrategy;
+  reserveTokens?: number;
+  tokenCounter?: (text: string) => number;
+};
+
+type ContextMessage = {
+  role: string;
+  content?: unknown;
+  tool_calls?: unknown;
+};
+
+/** Janela de contexto (em tokens) dos modelos mais usados. */
+export const DEFAULT_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-4-turbo': 128000,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'o1': 200000,
+  'o3': 200000,
+  'o4-mini': 200000,
+  'claude': 200000,
+  'llama3': 8192,
+  'llama3.1': 128000,
+  'llama3.2': 128000,
+};
+
+const FALLBACK_CONTEXT_WINDOW = 8192;
+
+const MESSAGE_OVERHEAD = 4;
+
+export const SUMMARY_PREFIX = 'Resumo da conversa anterior:';
+
+/**
+ * Estimativa barata (~4 caracteres por token). Para contagem exata, passe
+ * um `tokenCounter` baseado em tiktoken ou similar.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Custo aproximado de uma imagem anexada, independente do tamanho do base64. */
+const IMAGE_TOKENS = 1000;
+
+type ContentPart = { type?: string; text?: string };
+
+function isImagePart(part: ContentPart): boolean {
+  return part.type === 'image_url' || part.type === 'image';
+}
+
+function contentToText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (content === null || content === undefined) return '';
+
+  if (Array.isArray(content)) {
+    return (content as ContentPart[])
+      .map((part) => (isImagePart(part) ? '[imagem]' : part.text ?? ''))
+      .join('\n');
+  }
+
+  return JSON.stringify(content);
+}
+
+export function countMessageTokens(
+  message: ContextMessage,
+  counter: (text: string) => number = estimateTokens
+): number {
+  let tokens = MESSAGE_OVERHEAD;
+
+  if (Array.isArray(message.content)) {
+    for (const part of message.content as ContentPart[]) {
+      tokens += isImagePart(part) ? IMAGE_TOKENS : counter(part.text ?? JSON.stringify(part));
+    }
+  } else {
+    tokens += counter(contentToText(message.content));
+  }
+
+  if (message.tool_calls) {
+    tokens += counter(JSON.stringify(message.tool_calls));
+  }
+
+  return tokens;
+}
+
+function lookupContextWindow(model: string, windows: Record<string, number>): number {
+  if (windows[model]) return windows[model];
+
+  // Prefixo mais longo: "gpt-4o-mini-2024-07-18" -> "gpt-4o-mini".
+  const match = Object.keys(windows)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? windows[match] : FALLBACK_CONTEXT_WINDOW;
+}
+
+export function resolveContextBudget(
+  model: string,
+  options: ContextOptions,
+  maxTokens?: number
+): number {
+  const window =
+    typeof options.budget === 'number'
+      ? options.budget
+      : lookupContextWindow(model, { ...DEFAULT_CONTEXT_WINDOWS, ...options.budget });
+
+  const reserve = options.reserveTokens ?? maxTokens ?? 1024;
+
+  return Math.max(window - reserve, 0);
+}
+
+/** O resumo pode vir como `system` ou, no proxy, como `user`. */
+function isSummary(message: ContextMessage): boolean {
+  return typeof message.content === 'string' && message.content.startsWith(SUMMARY_PREFIX);
+}
+
+/** Na Anthropic, o resultado de uma ferramenta volta numa mensagem `user`. */
+function isToolResult(message: ContextMessage): boolean {
+  return (
+    Array.isArray(message.content) &&
+    message.content.length > 0 &&
+    (message.content as ContentPart[]).every((part) => part.type === 'tool_result')
+  );
+}
+
+/**
+ * Agrupa as mensagens em turnos que começam em uma mensagem do usuário,
+ * para que chamadas de ferramenta e seus resultados nunca sejam separados.
+ */
+function splitTurns<T extends ContextMessage>(messages: T[]): { head: T[]; turns: T[][] } {
+  let start = 0;
+  while (
+    start < messages.length &&
+    (messages[start].role === 'system' || isSummary(messages[start]))
+  ) {
+    start++;
+  }
+
+  const head = messages.slice(0, start);
+  const turns: T[][] = [];
+
+  for (const message of messages.slice(start)) {
+    if ((message.role === 'user' && !isToolResult(message)) || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+
+  return { head, turns };
+}
+
+export type FitContextOptions<T> = {
+  budget: number;
+  strategy?: ContextStrategy;
+  tokenCounter?: (text: string) => number;
+  summarize?: (transcript: string) => Promise<string>;
+  createSummary: (summary: string) => T;
+};
+
+/**
+ * Cabe o histórico no orçamento de tokens. Com `sliding-window` os turnos
+ * mais antigos são descartados; com `summarize` eles viram (ou atualizam)
+ * uma mensagem com o resumo, no papel que `createSummary` escolher. O último turno é sempre mantido.
+ */
+export async function fitContext<T extends ContextMessage>(
+  messages: T[],
+  options: FitContextOptions<T>
+): Promise<T[]> {
+  const counter = options.tokenCounter ?? estimateTokens;
+  const count = (list: T[]) =>
+    list.reduce((total, m) => total + countMessageTokens(m, counter), 0);
+
+  if (count(messages) <= options.budget) {
+    return messages;
+  }
+
+  const { head, turns } = splitTurns(messages);
+  const previousSummary = head.find(isSummary);
+  const system = head.filter((m) => m !== previousSummary);
+
+  let total = count(head) + count(turns.flat());
+  const dropped: T[] = [];
+
+  while (turns.length > 1 && total > options.budget) {
+    const turn = turns.shift()!;
+    dropped.push(...turn);
+    total -= count(turn);
+  }
+
+  if (options.strategy === 'summarize' && options.summarize && dropped.length > 0) {
+    const transcript = [
+      previousSummary ? contentToText(previousSummary.content) : '',
+      ...dropped.map((m) => `${m.role}: ${contentToText(m.content)}`),
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    try {
+      const summary = await options.summarize(transcript);
+      return [...system, options.createSummary(`${SUMMARY_PREFIX}\n${summary}`), ...turns.flat()];
+    } catch (error) {
+      console.warn('Falha ao resumir o histórico, usando janela deslizante', error);
+    }
+  }
+
+  return [...head, ...turns.flat()];
+}
+
+export const SUMMARY_INSTRUCTIONS =
+  'Resuma a conversa a seguir de forma concisa, preservando fatos, decisões, ' +
+  'dados informados pelo usuário e perguntas ainda em aberto.';
+
+/**
+ * Cópia de `messages` com `knowledge` antes do texto da última pergunta.
+ * Vai na mensagem do usuário, e não como `system`, porque o proxy troca as
+ * mensagens de sistema pelo `systemPrompt` do servidor.
+ */
+export function withKnowledge<T extends ContextMessage>(messages: T[], knowledge?: string): T[] {
+  if (!knowledge) return messages;
+
+  const index = messages.map((message) => message.role).lastIndexOf('user');
+  if (index === -1) return messages;
+
+  const { content } = messages[index];
+  const updated = [...messages];
+
+  updated[index] = {
+    ...messages[index],
+    content: Array.isArray(content)
+      ? [{ type: 'text', text: knowledge }, ...content]
+      : `${knowledge}\n\n${contentToText(content)}`,
+  };
+
+  return updated;
+}
@@ -0,0 +1,13 @@
+export function getEnvVariable(viteKey: string, craKey: string, defaultValue?: string): string | undefined {
+  if (typeof import.meta !== 'undefined' && import.meta.env) {
+    const value = import.meta.env[viteKey as keyof ImportMetaEnv];
+    if (value) return value;
+  }
+
+  if (typeof process !== 'undefined' && process?.env) {
+    const value = process.env[craKey as keyof NodeJS.ProcessEnv];
+    if (value) return value;
+  }
+
+  return defaultValue;
+}
@@ -0,0 +1,165 @@
+import { APIConnectionError, APIConnectionTimeoutError, APIError, APIUserAbortError } from 'openai';
+
+const CHATBOT_ERROR_CODES = [
+  'auth',
+  'missing_api_key',
+  'missing_endpoint',
+  'quota',
+  'rate_limit',
+  'network',
+  'server',
+  'timeout',
+  'model_not_found',
+  'aborted',
+  'empty_response',
+  'limit_reached',
+  'turn_limit_reached',
+  'window_limit_reached',
+  'token_limit_reached',
+  'cost_limit_reached',
+  'unsupported_file',
+  'file_too_large',
+  'too_many_files',
+  'system_prompt_unavailable',
+  'handoff_unavailable',
+  'invalid_transcript',
+  'storage_failed',
+  'unknown',
+] as const;
+
+export type ChatbotErrorCode = (typeof CHATBOT_ERROR_CODES)[number];
+
+export function isChatbotErrorCode(value: unknown): value is ChatbotErrorCode {
+  return (CHATBOT_ERROR_CODES as readonly unknown[]).includes(value);
+}
+
+/** Falhas passageiras, que valem uma nova tentativa automática. */
+const RETRYABLE_CODES = new Set<ChatbotErrorCode>(['rate_limit', 'network', 'server']);
+
+type ChatbotErrorOptions = {
+  params?: Record<string, string | number>;
+  status?: number;
+  /** Espera pedida pelo servidor (`Retry-After`), em milissegundos. */
+  retryAfter?: number;
+  cause?: unknown;
+};
+
+/**
+ * Erro com um código estável. A interface traduz pelo `code`; `message`
+ * fica em português e serve só para o console.
+ */
+export class ChatbotError extends Error {
+  readonly code: ChatbotErrorCode;
+  readonly params?: Record<string, string | number>;
+  readonly status?: number;
+  readonly retryAfter?: number;
+
+  constructor(code: ChatbotErrorCode, message: string = code, options: ChatbotErrorOptions = {}) {
+    super(message);
+    this.name = 'ChatbotError';
+    this.code = code;
+    this.params = options.params;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.has(this.code);
+  }
+}
+
+/** `apiCode` é o código do corpo do erro, usado para separar cota de rate limit no 429. */
+export function codeFromStatus(status: number, apiCode?: string | null): ChatbotErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'quota';
+  if (status === 404) return 'model_not_found';
+  if (status === 408) return 'timeout';
+  if (status === 429) return apiCode === 'insufficient_quota' ? 'quota' : 'rate_limit';
+  if (status >= 500) return 'server';
+
+  return 'unknown';
+}
+
+/** Aceita `Retry-After` em segundos ou como data HTTP. */
+export function parseRetryAfter(
+  retryAfter: string | null | undefined,
+  retryAfterMs?: string | null
+): number | undefined {
+  if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/** Para providers que usam `fetch` direto e recebem uma resposta de erro. */
+export function errorFromResponse(
+  res: Response,
+  message: string,
+  apiCode?: string | null
+): ChatbotError {
+  return new ChatbotError(codeFromStatus(res.status, apiCode), message, {
+    status: res.status,
+    retryAfter: parseRetryAfter(res.headers.get('retry-after'), res.headers.get('retry-after-ms')),
+  });
+}
+
+/**
+ * Para erros vindos de `fetch` ou da leitura do corpo da resposta: é com
+ * `TypeError` que eles sinalizam falha de rede (offline, DNS, CORS). Fora
+ * disso, um `TypeError` é bug e não deve virar "erro de conexão".
+ */
+export function fromFetchError(error: unknown): ChatbotError {
+  if (error instanceof Error && error.name === 'TypeError') {
+    return new ChatbotError('network', error.message, { cause: error });
+  }
+
+  return toChatbotError(error);
+}
+
+export function toChatbotError(error: unknown): ChatbotError {
+  if (error instanceof ChatbotError) return error;
+
+  if (error instanceof APIUserAbortError) {
+    return new ChatbotError('aborted', error.message, { cause: error });
+  }
+
+  if (error instanceof APIConnectionTimeoutError) {
+    return new ChatbotError('timeout', error.message, { cause: error });
+  }
+
+  if (error instanceof APIConnectionError) {
+    return new ChatbotError('network', error.message, { cause: error });
+  }
+
+  if (error instanceof APIError && error.status) {
+    return new ChatbotError(codeFromStatus(error.status, error.code), error.message, {
+      status: error.status,
+      retryAfter: parseRetryAfter(error.headers?.['retry-after'], error.headers?.['retry-after-ms']),
+      cause: error,
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') {
+      return new ChatbotError('aborted', error.message, { cause: error });
+    }
+
+    return new ChatbotError('unknown', error.message, { cause: error });
+  }
+
+  return new ChatbotError('unknown', String(error), { cause: error });
+}
@@ -0,0 +1,58 @@
+import { createOpenAIProvider } from './openaiProvider';
+import { createAzureOpenAIProvider } from './azureOpenaiProvider';
+import { createAnthropicProvider } from './anthropicProvider';
+import { createOllamaProvider } from './ollamaProvider';
+import { createProxyProvider } from './proxyProvider';
+import type { ChatProvider, ProviderFactory, ProviderName, ProviderOptions } from './types';
+
+export { compactAttachments, DEFAULT_ATTACHMENT_LIMITS, readAttachment } from './attachments';
+export type { Attachment, AttachmentLimits } from './attachments';
+export { DEFAULT_CONTEXT_WINDOWS, estimateTokens } from './context';
+export type { ContextOptions, ContextStrategy } from './context';
+export { ChatbotError, toChatbotError } from './errors';
+export type { ChatbotErrorCode } from './errors';
+export type { RetryOptions } from './retry';
+export type { ChatTool, ToolActivity } from './tools';
+export type {
+  ChatHistoryMessage,
+  ChatProvider,
+  CompleteOptions,
+  GenerationParams,
+  PromptOptions,
+  ProviderFactory,
+  ProviderName,
+  ProviderOptions,
+  ResponseFormat,
+  TokenUsage,
+} from './types';
+
+const registry = new Map<string, ProviderFactory>([
+  ['openai', createOpenAIProvider],
+  ['azure-openai', createAzureOpenAIProvider],
+  ['anthropic', createAnthropicProvider],
+  ['ollama', createOllamaProvider],
+  ['proxy', createProxyProvider],
+]);
+
+export function registerProvider(name: string, factory: ProviderFactory) {
+  registry.set(name, factory);
+}
+
+export function createChatProvider(
+  provider: ProviderName | ChatProvider,
+  options: ProviderOptions = {}
+): ChatProvider {
+  if (typeof provider !== 'string') {
+    return provider;
+  }
+
+  const factory = registry.get(provider);
+
+  if (!factory) {
+    throw new Error(
+      `Provider "${provider}" não registrado. Use registerProvider("${provider}", factory) antes de usá-lo.`
+    );
+  }
+
+  return factory(options);
+}
@@ -0,0 +1,19 @@
+import OpenAI from 'openai';
+import { getEnvVariable } from './env';
+import { createChatCompletionsProvider } from './openaiProvider';
+import type { ChatProvider, ProviderOptions } from './types';
+
+export function createOllamaProvider(options: ProviderOptions = {}): ChatProvider {
+  const baseURL = options.baseURL || getEnvVariable('VITE_OLLAMA_BASE_URL', 'REACT_APP_OLLAMA_BASE_URL', 'http://localhost:11434/v1');
+  const model = options.model || getEnvVariable('VITE_OLLAMA_MODEL', 'REACT_APP_OLLAMA_MODEL', 'llama3.2') || 'llama3.2';
+
+  // O Ollama ignora a chave, mas o SDK da OpenAI exige uma.
+  const openai = new OpenAI({
+    apiKey: options.apiKey || 'ollama',
+    baseURL,
+    maxRetries: 0,
+    dangerouslyAllowBrowser: true,
+  });
+
+  return createChatCompletionsProvider(openai, model, options.retry);
+}
@@ -1,42 +1,69 @@
 import OpenAI from 'openai';
+import { getEnvVariable } from './env';
+import { ChatbotError, toChatbotError } from './errors';
+import { toOpenAIContent } from './attachments';
+import type { OpenAIContentPart } from './attachments';
+import {
+  estimateTokens,
+  fitContext,
+  resolveContextBudget,
+  SUMMARY_INSTRUCTIONS,
+  withKnowledge,
+} from './context';
+import { withRetry } from './retry';
+import type { RetryOptions } from './retry';
+import { accumulateToolCalls, MAX_TOOL_ROUNDS, runToolCall, toOpenAITools } from './tools';
+import type { ToolCall } from './tools';
+import type {
+  ChatHistoryMessage,
+  ChatProvider,
+  CompleteOptions,
+  PromptOptions,
+  ProviderOptions,
+} from './types';
 
-type OpenAIMessage = {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-};
+type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | OpenAIContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
 
-function getEnvVariable(viteKey: string, craKey: string, defaultValue?: string): string | undefined {
-  if (typeof import.meta !== 'undefined' && import.meta.env) {
-    const value = import.meta.env[viteKey as keyof ImportMetaEnv];
-    if (value) return value;
-  }
-
-  if (typeof process !== 'undefined' && process?.env) {
-    const value = process.env[craKey as keyof NodeJS.ProcessEnv];
-    if (value) return value;
-  }
-
-  return defaultValue;
-}
-
-export function createOpenAIProvider() {
-  const apiKey = getEnvVariable('VITE_OPENAI_API_KEY', 'REACT_APP_OPENAI_API_KEY');
-  const model = getEnvVariable('VITE_OPENAI_MODEL', 'REACT_APP_OPENAI_MODEL', 'gpt-4o-mini') || 'gpt-4o-mini';
+export function createOpenAIProvider(options: ProviderOptions = {}): ChatProvider {
+  const apiKey = options.apiKey || getEnvVariable('VITE_OPENAI_API_KEY', 'REACT_APP_OPENAI_API_KEY');
+  const model = options.model || getEnvVariable('VITE_OPENAI_MODEL', 'REACT_APP_OPENAI_MODEL', 'gpt-4o-mini') || 'gpt-4o-mini';
 
   if (!apiKey) {
-    throw new Error(
+    throw new ChatbotError(
+      'missing_api_key',
       'OpenAI API Key não configurada. Adicione VITE_OPENAI_API_KEY ou REACT_APP_OPENAI_API_KEY no arquivo .env'
     );
   }
 
   const openai = new OpenAI({
     apiKey,
+    baseURL: options.baseURL,
+    maxRetries: 0,
     dangerouslyAllowBrowser: true,
   });
 
+  return createChatCompletionsProvider(openai, model, options.retry);
+}
+
+/**
+ * Provider genérico para qualquer API compatível com o endpoint
+ * `chat.completions` da OpenAI (OpenAI, Azure OpenAI, Ollama...).
+ */
+export function createChatCompletionsProvider(
+  openai: OpenAI,
+  model: string,
+  retry?: RetryOptions
+): ChatProvider {
   const messages: OpenAIMessage[] = [];
 
-  async function init(initialPrompts: string): Promise<boolean> {
+  async function init(
+    initialPrompts: string,
+    history: ChatHistoryMessage[] = []
+  ): Promise<boolean> {
     messages.length = 0;
 
     if (initialPrompts) {
@@ -46,61 +73,215 @@ export function createOpenAIProvider() {
       });
     }
 
+    messages.push(
+      ...history.map(({ role, content, attachments }): OpenAIMessage =>
+        role === 'user'
+          ? { role, content: toOpenAIContent(content, attachments) }
+          : { role, content }
+      )
+    );
+
     return true;
   }
 
+  async function complete(
+    instructions: string,
+    text: string,
+    options: CompleteOptions = {}
+  ): Promise<string> {
+    const { params = {}, signal } = options;
+
+    try {
+      const completion = await withRetry(
+        () =>
+          openai.chat.completions.create(
+            {
+              model: params.model || model,
+              messages: [
+                { role: 'system', content: instructions },
+                { role: 'user', content: text },
+              ],
+              temperature: params.temperature,
+              max_tokens: params.maxTokens,
+            },
+            { signal }
+          ),
+        signal,
+        retry
+      );
+
+      if (completion.usage) {
+        options.onUsage?.({
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+          totalTokens: completion.usage.total_tokens,
+          model: completion.model,
+        });
+      }
+
+      return completion.choices[0]?.message?.content ?? '';
+    } catch (error) {
+      throw toChatbotError(error);
+    }
+  }
+
+  async function summarize(
+    summaryModel: string,
+    transcript: string,
+    options: CompleteOptions = {}
+  ): Promise<string> {
+    const summary = await complete(SUMMARY_INSTRUCTIONS, transcript, {
+      ...options,
+      params: { model: summaryModel },
+    });
+
+    if (!summary) {
+      throw new Error('Resumo vazio');
+    }
+
+    return summary;
+  }
+
   async function prompt(
     text: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options: PromptOptions = {}
   ): Promise<ReadableStream<string>> {
-    try {
-      messages.push({ role: 'user', content: text });
-
-      const stream = await openai.chat.completions.create(
-        {
-          model,
-          messages: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
-          stream: true,
+    const params = options.params ?? {};
+    const tools = options.tools ?? [];
+    const context = options.context ?? {};
+    const activeModel = params.model || model;
+    const knowledgeTokens = options.knowledge
+      ? (context.tokenCounter ?? estimateTokens)(options.knowledge)
+      : 0;
+
+    async function prepareContext(): Promise<OpenAIMessage[]> {
+      // `createSummary` só é chamado quando o resumo deu certo.
+      let summarized = false;
+
+      const fitted = await fitContext(messages, {
+        budget: resolveContextBudget(activeModel, context, params.maxTokens) - knowledgeTokens,
+        strategy: context.strategy,
+        tokenCounter: context.tokenCounter,
+        summarize: (transcript) =>
+          summarize(activeModel, transcript, { signal, onUsage: options.onUsage }),
+        createSummary: (content): OpenAIMessage => {
+          summarized = true;
+          return { role: 'system', content };
         },
-        { signal }
+      });
+
+      // Sem resumo, a janela deslizante vale só para este pedido: os turnos
+      // antigos continuam guardados para uma próxima tentativa de resumir.
+      if (summarized) {
+        messages.splice(0, messages.length, ...fitted);
+      }
+
+      return withKnowledge(fitted, options.knowledge);
+    }
+
+    async function createCompletion(round: number) {
+      const contextMessages = await prepareContext();
+
+      return withRetry(
+        () =>
+          openai.chat.completions.create(
+            {
+              model: activeModel,
+              messages: contextMessages,
+              temperature: params.temperature,
+              max_tokens: params.maxTokens,
+              top_p: params.topP,
+              stop: params.stop,
+              response_format: params.responseFormat,
+              ...(tools.length > 0
+                ? {
+                    tools: toOpenAITools(tools),
+                    tool_choice: round < MAX_TOOL_ROUNDS ? 'auto' : 'none',
+                  }
+                : {}),
+              stream: true,
+              stream_options: { include_usage: true },
+            },
+            { signal }
+          ),
+        signal,
+        retry
       );
+    }
+
+    try {
+      messages.push({ role: 'user', content: toOpenAIContent(text, options.attachments) });
 
-      let assistantMessage = '';
+      const firstStream = await createCompletion(0);
 
       return new ReadableStream({
         async start(controller) {
           try {
-            for await (const chunk of stream) {
-              if (signal?.aborted) {
-                controller.close();
-                return;
+            let stream = firstStream;
+
+            for (let round = 0; ; round++) {
+              let assistantMessage = '';
+              const toolCalls: ToolCall[] = [];
+
+              for await (const chunk of stream) {
+                if (signal?.aborted) {
+                  controller.close();
+                  return;
+                }
+
+                const delta = chunk.choices[0]?.delta;
+                const content = delta?.content || '';
+
+                if (content) {
+                  assistantMessage += content;
+                  controller.enqueue(content);
+                }
+
+                accumulateToolCalls(toolCalls, delta?.tool_calls);
+
+                if (chunk.usage) {
+                  options.onUsage?.({
+                    promptTokens: chunk.usage.prompt_tokens,
+                    completionTokens: chunk.usage.completion_tokens,
+                    totalTokens: chunk.usage.total_tokens,
+                    model: chunk.model,
+                  });
+                }
               }
 
-              const content = chunk.choices[0]?.delta?.content || '';
+              if (toolCalls.length === 0) {
+                if (assistantMessage) {
+                  messages.push({
+                    role: 'assistant',
+                    content: assistantMessage,
+                  });
+                }
 
-              if (content) {
-                assistantMessage += content;
-                controller.enqueue(content);
+                break;
               }
 
-              if (chunk.choices[0]?.finish_reason === 'stop') {
-                messages.push({
-                  role: 'assistant',
-                  content: assistantMessage,
-                });
-                controller.close();
-                return;
+              const results: OpenAIMessage[] = [];
+
+              for (const call of toolCalls) {
+                const result = await runToolCall(call, tools, signal, options.onToolActivity);
+
+                // Cancelado durante a ferramenta: o contexto pode já ter sido reiniciado.
+                if (signal?.aborted) {
+                  controller.close();
+                  return;
+                }
+
+                results.push({ role: 'tool', tool_call_id: call.id, content: result });
               }
-            }
 
-            if (assistantMessage) {
-              messages.push({
-                role: 'assistant',
-                content: assistantMessage,
-              });
+              // A chamada e os resultados entram juntos, para nunca ficar um `tool_calls` sem resposta.
+              messages.push(
+                { role: 'assistant', content: assistantMessage || null, tool_calls: toolCalls },
+                ...results
+              );
+
+              stream = await createCompletion(round + 1);
             }
 
             controller.close();
@@ -117,38 +298,12 @@ export function createOpenAIProvider() {
       });
     } catch (error) {
       if (signal?.aborted) {
-        throw new Error('Request aborted by user');
-      }
-
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error('Request aborted by user');
-        }
-
-        if (error.message.includes('quota')) {
-          throw new Error(
-            'Cota de uso da OpenAI foi excedida. Verifique seu plano ou aguarde.'
-          );
-        }
-
-        if (error.message.includes('rate')) {
-          throw new Error(
-            'Muitas requisições. Aguarde um momento antes de tentar novamente.'
-          );
-        }
-
-        if (error.message.includes('api_key')) {
-          throw new Error(
-            'Chave de API inválida. Verifique sua OPENAI_API_KEY.'
-          );
-        }
-
-        throw error;
+        throw new ChatbotError('aborted', 'Request aborted by user');
       }
 
-      throw new Error('Erro desconhecido ao processar mensagem com OpenAI.');
+      throw toChatbotError(error);
     }
   }
 
-  return { init, prompt };
+  return { init, prompt, complete, model };
 }
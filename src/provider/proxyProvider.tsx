@@ -0,0 +1,342 @@
+import { toOpenAIContent } from './attachments';
+import type { OpenAIContentPart } from './attachments';
+import {
+  estimateTokens,
+  fitContext,
+  resolveContextBudget,
+  SUMMARY_INSTRUCTIONS,
+  withKnowledge,
+} from './context';
+import { ChatbotError, codeFromStatus, errorFromResponse } from './errors';
+import { withRetry } from './retry';
+import { readServerSentEvents } from './sse';
+import { accumulateToolCalls, MAX_TOOL_ROUNDS, runToolCall, toOpenAITools } from './tools';
+import type { ToolCall } from './tools';
+import type {
+  ChatHistoryMessage,
+  ChatProvider,
+  CompleteOptions,
+  PromptOptions,
+  ProviderOptions,
+} from './types';
+
+type ProxyMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | OpenAIContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+/** Erros enviados pelo proxy no meio do stream trazem o status original da API. */
+function streamError(payload: { error?: { message?: string; status?: number; code?: string } }) {
+  const status = payload.error?.status;
+
+  return new ChatbotError(
+    status ? codeFromStatus(status, payload.error?.code) : 'unknown',
+    payload.error?.message || 'Erro no stream do proxy',
+    { status }
+  );
+}
+
+/**
+ * Provider que conversa com um endpoint do próprio backend (ver
+ * `createOpenAIProxyHandler`), mantendo a chave de API fora do bundle.
+ */
+export function createProxyProvider(providerOptions: ProviderOptions = {}): ChatProvider {
+  const endpoint = providerOptions.endpoint;
+
+  if (!endpoint) {
+    throw new ChatbotError(
+      'missing_endpoint',
+      'Endpoint do proxy não configurado. Informe a prop endpoint no Chatbot.'
+    );
+  }
+
+  const messages: ProxyMessage[] = [];
+
+  async function init(
+    initialPrompts: string,
+    history: ChatHistoryMessage[] = []
+  ): Promise<boolean> {
+    messages.length = 0;
+
+    if (initialPrompts) {
+      messages.push({
+        role: 'system',
+        content: initialPrompts,
+      });
+    }
+
+    messages.push(
+      ...history.map(({ role, content, attachments }): ProxyMessage =>
+        role === 'user'
+          ? { role, content: toOpenAIContent(content, attachments) }
+          : { role, content }
+      )
+    );
+
+    return true;
+  }
+
+  async function post(
+    payload: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    try {
+      return await withRetry(
+        async () => {
+          const res = await fetch(endpoint!, {
+            method: 'POST',
+            headers: {
+              'content-type': 'application/json',
+              ...providerOptions.headers,
+            },
+            body: JSON.stringify(payload),
+            signal,
+          });
+
+          if (!res.ok || !res.body) {
+            const detail = await res.json().catch(() => null);
+            throw errorFromResponse(
+              res,
+              detail?.error?.message || `Erro no proxy do chatbot (${res.status})`,
+              detail?.error?.code
+            );
+          }
+
+          return res.body;
+        },
+        signal,
+        providerOptions.retry
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new ChatbotError('aborted', 'Request aborted by user');
+      }
+
+      throw error;
+    }
+  }
+
+  async function complete(
+    instructions: string,
+    text: string,
+    options: CompleteOptions = {}
+  ): Promise<string> {
+    const { params = {}, signal } = options;
+    const model = params.model || providerOptions.model;
+
+    // As instruções vão na mensagem do usuário porque o proxy pode trocar
+    // as mensagens de sistema pelo `systemPrompt` do servidor.
+    const body = await post(
+      {
+        ...(model ? { model } : {}),
+        messages: [{ role: 'user', content: `${instructions}\n\n${text}` }],
+        temperature: params.temperature,
+        max_tokens: params.maxTokens,
+      },
+      signal
+    );
+
+    let result = '';
+
+    for await (const event of readServerSentEvents(body)) {
+      if (event.data === '[DONE]') break;
+
+      const payload = JSON.parse(event.data);
+
+      if (event.event === 'error') {
+        throw streamError(payload);
+      }
+
+      result += payload.choices?.[0]?.delta?.content || '';
+
+      if (payload.usage) {
+        options.onUsage?.({
+          promptTokens: payload.usage.prompt_tokens,
+          completionTokens: payload.usage.completion_tokens,
+          totalTokens: payload.usage.total_tokens,
+          model: payload.model,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  async function summarize(
+    model: string | undefined,
+    transcript: string,
+    options: CompleteOptions = {}
+  ): Promise<string> {
+    const summary = await complete(SUMMARY_INSTRUCTIONS, transcript, {
+      ...options,
+      params: { model },
+    });
+
+    if (!summary) {
+      throw new Error('Resumo vazio');
+    }
+
+    return summary;
+  }
+
+  async function prompt(
+    text: string,
+    signal?: AbortSignal,
+    options: PromptOptions = {}
+  ): Promise<ReadableStream<string>> {
+    const params = options.params ?? {};
+    const model = params.model || providerOptions.model;
+    const tools = options.tools ?? [];
+    const context = options.context ?? {};
+    const knowledgeTokens = options.knowledge
+      ? (context.tokenCounter ?? estimateTokens)(options.knowledge)
+      : 0;
+
+    async function prepareContext(): Promise<ProxyMessage[]> {
+      // `createSummary` só é chamado quando o resumo deu certo.
+      let summarized = false;
+
+      const fitted = await fitContext(messages, {
+        budget: resolveContextBudget(model || '', context, params.maxTokens) - knowledgeTokens,
+        strategy: context.strategy,
+        tokenCounter: context.tokenCounter,
+        summarize: (transcript) => summarize(model, transcript, { signal, onUsage: options.onUsage }),
+        // Como `user`: o proxy troca as mensagens de sistema pelo `systemPrompt` do servidor.
+        createSummary: (content): ProxyMessage => {
+          summarized = true;
+          return { role: 'user', content };
+        },
+      });
+
+      // Sem resumo, a janela deslizante vale só para este pedido: os turnos
+      // antigos continuam guardados para uma próxima tentativa de resumir.
+      if (summarized) {
+        messages.splice(0, messages.length, ...fitted);
+      }
+
+      return withKnowledge(fitted, options.knowledge);
+    }
+
+    async function request(round: number): Promise<ReadableStream<Uint8Array>> {
+      return post(
+        {
+          ...(model ? { model } : {}),
+          messages: await prepareContext(),
+          temperature: params.temperature,
+          max_tokens: params.maxTokens,
+          top_p: params.topP,
+          stop: params.stop,
+          response_format: params.responseFormat,
+          ...(tools.length > 0
+            ? {
+                tools: toOpenAITools(tools),
+                tool_choice: round < MAX_TOOL_ROUNDS ? 'auto' : 'none',
+              }
+            : {}),
+        },
+        signal
+      );
+    }
+
+    messages.push({ role: 'user', content: toOpenAIContent(text, options.attachments) });
+
+    let firstBody: ReadableStream<Uint8Array>;
+
+    try {
+      firstBody = await request(0);
+    } catch (error) {
+      messages.pop();
+      throw error;
+    }
+
+    return new ReadableStream({
+      async start(controller) {
+        try {
+          let body = firstBody;
+
+          for (let round = 0; ; round++) {
+            let assistantMessage = '';
+            const toolCalls: ToolCall[] = [];
+
+            for await (const event of readServerSentEvents(body)) {
+              if (signal?.aborted) {
+                controller.close();
+                return;
+              }
+
+              if (event.data === '[DONE]') break;
+
+              const payload = JSON.parse(event.data);
+
+              if (event.event === 'error') {
+                throw streamError(payload);
+              }
+
+              const delta = payload.choices?.[0]?.delta;
+              const content = delta?.content || '';
+
+              if (content) {
+                assistantMessage += content;
+                controller.enqueue(content);
+              }
+
+              accumulateToolCalls(toolCalls, delta?.tool_calls);
+
+              if (payload.usage) {
+                options.onUsage?.({
+                  promptTokens: payload.usage.prompt_tokens,
+                  completionTokens: payload.usage.completion_tokens,
+                  totalTokens: payload.usage.total_tokens,
+                  model: payload.model,
+                });
+              }
+            }
+
+            if (toolCalls.length === 0) {
+              if (assistantMessage) {
+                messages.push({ role: 'assistant', content: assistantMessage });
+              }
+
+              break;
+            }
+
+            const results: ProxyMessage[] = [];
+
+            for (const call of toolCalls) {
+              const result = await runToolCall(call, tools, signal, options.onToolActivity);
+
+              // Cancelado durante a ferramenta: o contexto pode já ter sido reiniciado.
+              if (signal?.aborted) {
+                controller.close();
+                return;
+              }
+
+              results.push({ role: 'tool', tool_call_id: call.id, content: result });
+            }
+
+            // A chamada e os resultados entram juntos, para nunca ficar um `tool_calls` sem resposta.
+            messages.push(
+              { role: 'assistant', content: assistantMessage || null, tool_calls: toolCalls },
+              ...results
+            );
+
+            body = await request(round + 1);
+          }
+
+          controller.close();
+        } catch (error) {
+          if (signal?.aborted) {
+            controller.close();
+            return;
+          }
+
+          console.error('Erro no stream do proxy:', error);
+          controller.error(error);
+        }
+      },
+    });
+  }
+
+  return { init, prompt, complete, model: providerOptions.model };
+}
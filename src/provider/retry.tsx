@@ -0,0 +1,70 @@
+import { ChatbotError, fromFetchError } from './errors';
+
+export type RetryOptions = {
+  /** Novas tentativas além da primeira. `0` desliga. */
+  retries?: number;
+  /** Espera antes da primeira nova tentativa, dobrando a cada uma (ms). */
+  baseDelay?: number;
+  /** Maior espera aceita. Se o `Retry-After` pedir mais, o erro é exibido. */
+  maxDelay?: number;
+};
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+};
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ChatbotError('aborted', 'Request aborted by user'));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Repete `run` em rate limit e falhas de rede, com backoff exponencial e
+ * respeitando o `Retry-After`. Só envolve a abertura da requisição: depois
+ * que o stream começou, um erro vai direto para o usuário. `run` deve conter
+ * só a chamada de rede, já que todo `TypeError` lançado ali conta como falha de rede.
+ */
+export async function withRetry<T>(
+  run: () => Promise<T>,
+  signal?: AbortSignal,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { retries, baseDelay, maxDelay } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const chatbotError = fromFetchError(error);
+
+      if (signal?.aborted || !chatbotError.retryable || attempt >= retries) {
+        throw chatbotError;
+      }
+
+      const backoff = baseDelay * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      const delay = chatbotError.retryAfter ?? Math.min(backoff, maxDelay);
+
+      if (delay > maxDelay) {
+        throw chatbotError;
+      }
+
+      console.warn(
+        `Tentativa ${attempt + 1} falhou (${chatbotError.code}), tentando de novo em ${Math.round(delay)} ms`
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
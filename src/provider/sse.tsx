@@ -0,0 +1,58 @@
+import { fromFetchError } from './errors';
+
+export type ServerSentEvent = {
+  event?: string;
+  data: string;
+};
+
+/**
+ * Lê um corpo de resposta `text/event-stream` e devolve cada evento
+ * assim que ele estiver completo.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read().catch((error) => {
+      throw fromFetchError(error);
+    });
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+      const event = parseEvent(raw);
+      if (event) yield event;
+
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  const event = parseEvent(buffer);
+  if (event) yield event;
+}
+
+function parseEvent(raw: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (data.length === 0) return null;
+
+  return { event, data: data.join('\n') };
+}
@@ -0,0 +1,121 @@
+export type ChatTool<TArgs = Record<string, unknown>> = {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>;
+  // Declarado como método para que `ChatTool<{ cidade: string }>` caiba em `ChatTool[]`.
+  handler(args: TArgs, context: { signal?: AbortSignal }): Promise<unknown> | unknown;
+};
+
+export type ToolActivity = {
+  id: string;
+  name: string;
+  arguments: string;
+  status: 'running' | 'done' | 'error';
+  result?: string;
+};
+
+export type ToolCall = {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+};
+
+type ToolCallDelta = {
+  index: number;
+  id?: string;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+};
+
+/** Limite de idas e voltas modelo -> ferramenta antes de exigir uma resposta final. */
+export const MAX_TOOL_ROUNDS = 5;
+
+export function toOpenAITools(tools: ChatTool[]) {
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+/** Mesmo formato para a API de mensagens da Anthropic. */
+export function toAnthropicTools(tools: ChatTool[]) {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters,
+  }));
+}
+
+/**
+ * Junta os fragmentos de `tool_calls` que chegam espalhados pelos chunks
+ * do stream. Cada chamada é identificada pelo `index`.
+ */
+export function accumulateToolCalls(calls: ToolCall[], deltas?: ToolCallDelta[] | null) {
+  for (const delta of deltas ?? []) {
+    const call = (calls[delta.index] ??= {
+      id: '',
+      type: 'function',
+      function: { name: '', arguments: '' },
+    });
+
+    if (delta.id) call.id = delta.id;
+    if (delta.function?.name) call.function.name += delta.function.name;
+    if (delta.function?.arguments) call.function.arguments += delta.function.arguments;
+  }
+}
+
+/**
+ * Executa o handler registrado para a chamada e devolve o conteúdo da
+ * mensagem `tool`. Falhas do handler viram um JSON de erro para o modelo.
+ */
+export async function runToolCall(
+  call: ToolCall,
+  tools: ChatTool[],
+  signal?: AbortSignal,
+  onToolActivity?: (activity: ToolActivity) => void
+): Promise<string> {
+  const activity: ToolActivity = {
+    id: call.id,
+    name: call.function.name,
+    arguments: call.function.arguments,
+    status: 'running',
+  };
+
+  onToolActivity?.(activity);
+
+  try {
+    const tool = tools.find((t) => t.name === call.function.name);
+
+    if (!tool) {
+      throw new Error(`Ferramenta "${call.function.name}" não registrada`);
+    }
+
+    const args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    const result = await tool.handler(args, { signal });
+    const content = typeof result === 'string' ? result : JSON.stringify(result ?? null);
+
+    // Um handler que ignora o `signal` ainda termina; o resultado não é mais anunciado.
+    if (!signal?.aborted) {
+      onToolActivity?.({ ...activity, status: 'done', result: content });
+    }
+
+    return content;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+
+    const message = error instanceof Error ? error.message : String(error);
+
+    onToolActivity?.({ ...activity, status: 'error', result: message });
+
+    return JSON.stringify({ error: message });
+  }
+}
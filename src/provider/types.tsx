@@ -0,0 +1,101 @@
+import type { Attachment } from './attachments';
+import type { ContextOptions } from './context';
+import type { RetryOptions } from './retry';
+import type { ChatTool, ToolActivity } from './tools';
+
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        description?: string;
+        schema?: Record<string, unknown>;
+        strict?: boolean;
+      };
+    };
+
+export type GenerationParams = {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string | string[];
+  responseFormat?: ResponseFormat;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Modelo que respondeu, como a API informa. Usado para calcular o custo. */
+  model?: string;
+};
+
+export type PromptOptions = {
+  params?: GenerationParams;
+  tools?: ChatTool[];
+  context?: ContextOptions;
+  attachments?: Attachment[];
+  /** Trechos da base de conhecimento para esta pergunta. Vão só nesta chamada, fora do histórico. */
+  knowledge?: string;
+  onToolActivity?: (activity: ToolActivity) => void;
+  /** Chamado a cada chamada ao modelo (uma por rodada de ferramentas), quando a API informa o uso. */
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+/** Opções de `complete`, a chamada avulsa ao modelo. */
+export type CompleteOptions = {
+  params?: GenerationParams;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+export type ChatHistoryMessage = {
+  role: 'user' | 'assistant';
+  content: string;
+  attachments?: Attachment[];
+};
+
+export type ChatProvider = {
+  init: (initialPrompts: string, history?: ChatHistoryMessage[]) => Promise<boolean>;
+  prompt: (
+    text: string,
+    signal?: AbortSignal,
+    options?: PromptOptions
+  ) => Promise<ReadableStream<string>>;
+  /**
+   * Pedido avulso, sem streaming e fora do histórico da conversa (resumos,
+   * sugestões de perguntas). Providers próprios podem omitir; os recursos
+   * que dependem dele ficam desligados.
+   */
+  complete?: (instructions: string, text: string, options?: CompleteOptions) => Promise<string>;
+  /**
+   * Modelo usado quando `params.model` não é informado, para estimar o custo
+   * de respostas cortadas. No proxy, só existe se `model` for configurado.
+   */
+  model?: string;
+};
+
+export type ProviderOptions = {
+  apiKey?: string;
+  model?: string;
+  baseURL?: string;
+  endpoint?: string;
+  deployment?: string;
+  apiVersion?: string;
+  maxTokens?: number;
+  headers?: Record<string, string>;
+  retry?: RetryOptions;
+};
+
+export type ProviderFactory = (options: ProviderOptions) => ChatProvider;
+
+export type ProviderName =
+  | 'openai'
+  | 'azure-openai'
+  | 'anthropic'
+  | 'ollama'
+  | 'proxy'
+  | (string & {});
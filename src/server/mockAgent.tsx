@@ -0,0 +1,140 @@
+import type { AgentEvent, AgentInfo, HandoffRequest } from '../handoff';
+import type { ProxyHandler } from './openaiProxy';
+
+export type MockAgentOptions = {
+  agent?: AgentInfo;
+  /** Tempo até o atendente entrar, em ms. Padrão: 2000. */
+  joinDelay?: number;
+  /** Tempo digitando antes de cada resposta, em ms. Padrão: 1500. */
+  replyDelay?: number;
+  /** Mensagem do usuário que faz o atendente encerrar. Padrão: `encerrar`. */
+  closeKeyword?: string;
+  reply?: (text: string, request: HandoffRequest) => string;
+};
+
+type ScheduledEvent = {
+  at: number;
+  event: AgentEvent;
+};
+
+type MockSession = {
+  request: HandoffRequest;
+  events: ScheduledEvent[];
+};
+
+function json(status: number, body?: unknown): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: body === undefined ? {} : { 'content-type': 'application/json' },
+  });
+}
+
+/**
+ * Atendente falso para desenvolvimento, no protocolo do
+ * `createPollingTransport`. Guarda as sessões em memória e agenda os
+ * eventos com horário, sem timers: cada consulta leva o que já venceu.
+ */
+export function createMockAgentHandler(options: MockAgentOptions = {}): ProxyHandler {
+  const {
+    agent = { id: 'mock', name: 'Ana' },
+    joinDelay = 2000,
+    replyDelay = 1500,
+    closeKeyword = 'encerrar',
+    reply = (text) => `Recebi sua mensagem: "${text}". Vou verificar e já te respondo.`,
+  } = options;
+
+  const sessions = new Map<string, MockSession>();
+
+  // Eventos em ordem de horário, para o cursor ser só a posição na lista.
+  function schedule(session: MockSession, delay: number, event: AgentEvent) {
+    const last = session.events[session.events.length - 1]?.at ?? 0;
+    session.events.push({ at: Math.max(Date.now(), last) + delay, event });
+  }
+
+  return async function mockAgentHandler(request) {
+    const url = new URL(request.url);
+    const match = url.pathname.match(/\/sessions(?:\/([^/]+))?(?:\/(events|messages))?\/?$/);
+
+    if (!match) {
+      return json(404, { error: { message: 'Rota não encontrada.' } });
+    }
+
+    const [, sessionId, action] = match;
+
+    if (!sessionId) {
+      if (request.method !== 'POST') return json(405);
+
+      const handoff = (await request.json().catch(() => null)) as HandoffRequest | null;
+
+      if (!handoff || !Array.isArray(handoff.transcript)) {
+        return json(400, { error: { message: 'Campo transcript inválido.' } });
+      }
+
+      const id = crypto.randomUUID();
+      const session: MockSession = { request: handoff, events: [] };
+      sessions.set(id, session);
+
+      schedule(session, 0, { type: 'queued', position: 1 });
+      schedule(session, joinDelay, { type: 'joined', agent });
+      schedule(session, 300, {
+        type: 'message',
+        agent,
+        text: `Olá! Sou ${agent.name}. Já li sua conversa com o assistente, como posso ajudar?`,
+      });
+
+      return json(201, { sessionId: id });
+    }
+
+    const session = sessions.get(decodeURIComponent(sessionId));
+
+    if (!session) {
+      return json(404, { error: { message: 'Sessão não encontrada.' } });
+    }
+
+    if (action === 'events' && request.method === 'GET') {
+      const after = Number(url.searchParams.get('after')) || 0;
+      const now = Date.now();
+      let cursor = after;
+
+      while (cursor < session.events.length && session.events[cursor].at <= now) cursor++;
+
+      const events = session.events.slice(after, cursor).map(({ event }) => event);
+
+      if (events.some((event) => event.type === 'closed')) {
+        sessions.delete(decodeURIComponent(sessionId));
+      }
+
+      return json(200, { events, cursor });
+    }
+
+    if (action === 'messages' && request.method === 'POST') {
+      const body = (await request.json().catch(() => null)) as { text?: unknown } | null;
+
+      if (typeof body?.text !== 'string') {
+        return json(400, { error: { message: 'Campo text inválido.' } });
+      }
+
+      const closing = body.text.trim().toLowerCase() === closeKeyword.toLowerCase();
+
+      schedule(session, 0, { type: 'typing', typing: true });
+      schedule(session, replyDelay, {
+        type: 'message',
+        agent,
+        text: closing ? 'Obrigada pelo contato! Estou encerrando o atendimento.' : reply(body.text, session.request),
+      });
+
+      if (closing) {
+        schedule(session, 500, { type: 'closed' });
+      }
+
+      return json(204);
+    }
+
+    if (!action && request.method === 'DELETE') {
+      sessions.delete(decodeURIComponent(sessionId));
+      return json(204);
+    }
+
+    return json(405);
+  };
+}
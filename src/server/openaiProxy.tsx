@@ -0,0 +1,298 @@
+import OpenAI from 'openai';
+
+type ProxyMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+type ProxyTool = OpenAI.Chat.Completions.ChatCompletionTool;
+
+export type OpenAIProxyOptions = {
+  apiKey?: string;
+  model?: string;
+  allowedModels?: string[];
+  baseURL?: string;
+  systemPrompt?: string;
+};
+
+export type ProxyHandler = (request: Request) => Promise<Response>;
+
+type NodeRequest = AsyncIterable<Uint8Array | string> & {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+};
+
+type NodeResponse = {
+  statusCode: number;
+  setHeader: (name: string, value: string) => void;
+  write: (chunk: Uint8Array) => boolean;
+  end: () => void;
+  flushHeaders?: () => void;
+  on?: (event: 'close', listener: () => void) => void;
+};
+
+function jsonError(
+  status: number,
+  message: string,
+  extra: { code?: string | null; retryAfter?: string | null } = {}
+): Response {
+  return new Response(JSON.stringify({ error: { message, code: extra.code ?? undefined } }), {
+    status,
+    headers: {
+      'content-type': 'application/json',
+      // Repassado para o cliente decidir quanto esperar antes de tentar de novo.
+      ...(extra.retryAfter ? { 'retry-after': extra.retryAfter } : {}),
+    },
+  });
+}
+
+function isContentParts(content: unknown): boolean {
+  return (
+    Array.isArray(content) &&
+    content.every(
+      (part) =>
+        (part?.type === 'text' && typeof part.text === 'string') ||
+        (part?.type === 'image_url' && typeof part.image_url?.url === 'string')
+    )
+  );
+}
+
+function isValidMessage(message: unknown): message is ProxyMessage {
+  if (!message || typeof message !== 'object') return false;
+
+  const { role, content, tool_calls, tool_call_id } = message as {
+    role?: unknown;
+    content?: unknown;
+    tool_calls?: unknown;
+    tool_call_id?: unknown;
+  };
+
+  if (role === 'system') {
+    return typeof content === 'string';
+  }
+
+  if (role === 'user') {
+    return typeof content === 'string' || isContentParts(content);
+  }
+
+  if (role === 'assistant') {
+    return (
+      (typeof content === 'string' || (content === null && Array.isArray(tool_calls))) &&
+      (tool_calls === undefined || Array.isArray(tool_calls))
+    );
+  }
+
+  if (role === 'tool') {
+    return typeof content === 'string' && typeof tool_call_id === 'string';
+  }
+
+  return false;
+}
+
+function isTools(tools: unknown): tools is ProxyTool[] {
+  return (
+    Array.isArray(tools) &&
+    tools.every(
+      (tool) => tool?.type === 'function' && typeof tool.function?.name === 'string'
+    )
+  );
+}
+
+function isStop(stop: unknown): stop is string | string[] {
+  return (
+    typeof stop === 'string' ||
+    (Array.isArray(stop) && stop.every((s) => typeof s === 'string'))
+  );
+}
+
+function isResponseFormat(
+  format: unknown
+): format is OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'] {
+  if (!format || typeof format !== 'object') return false;
+
+  const { type } = format as { type?: unknown };
+
+  return type === 'text' || type === 'json_object' || type === 'json_schema';
+}
+
+/**
+ * Cria um handler no formato `Request -> Response` (Next.js route handlers,
+ * Remix, Hono...) que injeta a chave da OpenAI no servidor e repassa o
+ * stream SSE para o `proxyProvider` do navegador.
+ */
+export function createOpenAIProxyHandler(options: OpenAIProxyOptions = {}): ProxyHandler {
+  const apiKey = options.apiKey || (typeof process !== 'undefined' ? process?.env.OPENAI_API_KEY : undefined);
+  const defaultModel = options.model || (typeof process !== 'undefined' ? process?.env.OPENAI_MODEL : undefined) || 'gpt-4o-mini';
+
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY não configurada no servidor.');
+  }
+
+  // Quem tenta de novo é o navegador, que sabe quando o usuário cancelou.
+  const openai = new OpenAI({ apiKey, baseURL: options.baseURL, maxRetries: 0 });
+
+  return async function handler(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return jsonError(405, 'Método não permitido.');
+    }
+
+    let body: {
+      model?: unknown;
+      messages?: unknown;
+      temperature?: unknown;
+      max_tokens?: unknown;
+      top_p?: unknown;
+      stop?: unknown;
+      response_format?: unknown;
+      tools?: unknown;
+      tool_choice?: unknown;
+    };
+
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Corpo da requisição inválido.');
+    }
+
+    if (!Array.isArray(body.messages) || !body.messages.every(isValidMessage)) {
+      return jsonError(400, 'Campo messages inválido.');
+    }
+
+    const model = typeof body.model === 'string' ? body.model : defaultModel;
+
+    if (model !== defaultModel && !options.allowedModels?.includes(model)) {
+      return jsonError(400, `O modelo ${model} não é permitido por este servidor.`);
+    }
+
+    const messages: ProxyMessage[] = options.systemPrompt
+      ? [
+          { role: 'system', content: options.systemPrompt },
+          ...body.messages.filter((m: ProxyMessage) => m.role !== 'system'),
+        ]
+      : body.messages;
+
+    let stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>;
+
+    try {
+      stream = await openai.chat.completions.create(
+        {
+          model,
+          messages,
+          temperature: typeof body.temperature === 'number' ? body.temperature : undefined,
+          max_tokens: typeof body.max_tokens === 'number' ? body.max_tokens : undefined,
+          top_p: typeof body.top_p === 'number' ? body.top_p : undefined,
+          stop: isStop(body.stop) ? body.stop : undefined,
+          response_format: isResponseFormat(body.response_format) ? body.response_format : undefined,
+          ...(isTools(body.tools)
+            ? {
+                tools: body.tools,
+                tool_choice: body.tool_choice === 'none' ? 'none' : 'auto',
+              }
+            : {}),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal }
+      );
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        return jsonError(error.status ?? 502, error.message, {
+          code: error.code,
+          retryAfter: error.headers?.['retry-after'],
+        });
+      }
+
+      return jsonError(500, error instanceof Error ? error.message : 'Erro desconhecido.');
+    }
+
+    const encoder = new TextEncoder();
+
+    const readable = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const chunk of stream) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+          }
+
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        } catch (error) {
+          if (!request.signal.aborted) {
+            const message = error instanceof Error ? error.message : 'Erro no stream da OpenAI';
+            const detail =
+              error instanceof OpenAI.APIError ? { status: error.status, code: error.code } : {};
+            controller.enqueue(
+              encoder.encode(
+                `event: error\ndata: ${JSON.stringify({ error: { message, ...detail } })}\n\n`
+              )
+            );
+          }
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(readable, {
+      headers: {
+        'content-type': 'text/event-stream',
+        'cache-control': 'no-cache, no-transform',
+        connection: 'keep-alive',
+      },
+    });
+  };
+}
+
+async function readNodeBody(req: NodeRequest): Promise<string> {
+  if (req.body !== undefined) {
+    return typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
+  }
+
+  const decoder = new TextDecoder();
+  let body = '';
+
+  for await (const chunk of req) {
+    body += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+
+  return body + decoder.decode();
+}
+
+/**
+ * Adapta um `ProxyHandler` para a assinatura `(req, res)` do Express e do
+ * módulo `http` do Node. Funciona com ou sem `express.json()`.
+ */
+export function toNodeHandler(handler: ProxyHandler) {
+  return async function nodeHandler(req: NodeRequest, res: NodeResponse): Promise<void> {
+    const controller = new AbortController();
+    res.on?.('close', () => controller.abort());
+
+    const contentType = req.headers['content-type'];
+    const request = new Request(`http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`, {
+      method: req.method,
+      headers: typeof contentType === 'string' ? { 'content-type': contentType } : {},
+      body: req.method === 'POST' ? await readNodeBody(req) : undefined,
+      signal: controller.signal,
+    });
+
+    const response = await handler(request);
+
+    res.statusCode = response.status;
+    response.headers.forEach((value, name) => res.setHeader(name, value));
+    res.flushHeaders?.();
+
+    if (response.body) {
+      const reader = response.body.getReader();
+
+      try {
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          res.write(value);
+        }
+      } catch {
+        // Cliente desconectou no meio do stream.
+      }
+    }
+
+    res.end();
+  };
+}
@@ -0,0 +1,66 @@
+import type { Message } from '../hooks/useChatbot';
+import type { ChatStorage } from './types';
+
+export type DebouncedWriter = {
+  save: (threadId: string, messages: Message[]) => void;
+  cancel: (threadId: string) => void;
+  flush: () => Promise<void>;
+};
+
+/**
+ * Agrupa as gravações de histórico: durante o streaming só a última versão
+ * de cada conversa é escrita, `delay` ms depois do último chunk.
+ */
+export function createDebouncedWriter(
+  storage: ChatStorage,
+  delay: number,
+  onError?: (error: unknown, threadId: string) => void
+): DebouncedWriter {
+  const pending = new Map<string, { messages: Message[]; timer: ReturnType<typeof setTimeout> }>();
+  // `onError` só é chamado na primeira falha de cada conversa, até uma gravação dar certo.
+  const failing = new Set<string>();
+
+  async function write(threadId: string) {
+    const entry = pending.get(threadId);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    pending.delete(threadId);
+
+    try {
+      await storage.saveMessages(threadId, entry.messages);
+      failing.delete(threadId);
+    } catch (error) {
+      console.error('Erro ao salvar histórico do chatbot:', error);
+
+      if (!failing.has(threadId)) {
+        failing.add(threadId);
+        onError?.(error, threadId);
+      }
+    }
+  }
+
+  return {
+    save(threadId, messages) {
+      const entry = pending.get(threadId);
+      if (entry) clearTimeout(entry.timer);
+
+      pending.set(threadId, {
+        messages,
+        timer: setTimeout(() => write(threadId), delay),
+      });
+    },
+
+    cancel(threadId) {
+      const entry = pending.get(threadId);
+      if (!entry) return;
+
+      clearTimeout(entry.timer);
+      pending.delete(threadId);
+    },
+
+    async flush() {
+      await Promise.all([...pending.keys()].map(write));
+    },
+  };
+}
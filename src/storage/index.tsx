@@ -0,0 +1,10 @@
+export { createDebouncedWriter } from './debouncedWriter';
+export { createIndexedDBAdapter } from './indexedDbAdapter';
+export { createMemoryAdapter } from './memoryAdapter';
+export {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createWebStorageAdapter,
+} from './webStorageAdapter';
+export type { DebouncedWriter } from './debouncedWriter';
+export type { ChatStorage, ChatThread, StorageAdapterOptions } from './types';
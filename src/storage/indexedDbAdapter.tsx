@@ -0,0 +1,64 @@
+import type { ChatStorage, StorageAdapterOptions } from './types';
+
+const DB_NAME = 'react-chatbot';
+const STORE_NAME = 'entries';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+
+  return database;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Adapter em IndexedDB, para históricos grandes demais para o localStorage.
+ * Os valores são gravados como objetos, sem serializar para JSON.
+ */
+export function createIndexedDBAdapter({ namespace = 'openai' }: StorageAdapterOptions = {}): ChatStorage {
+  const key = (name: string) => `${namespace}:${name}`;
+
+  const get = <T,>(name: string, fallback: T) =>
+    run<T | undefined>('readonly', (store) => store.get(key(name))).then(
+      (value) => value ?? fallback
+    );
+  const put = (name: string, value: unknown) =>
+    run<void>('readwrite', (store) => store.put(value, key(name)));
+  const remove = (name: string) =>
+    run<void>('readwrite', (store) => store.delete(key(name)));
+
+  return {
+    getThreads: () => get('threads', []),
+    saveThreads: (threads) => put('threads', threads),
+    getActiveThreadId: () => get<string | null>('active_thread', null),
+    saveActiveThreadId: (id) => put('active_thread', id),
+    getMessages: (threadId) => get(`messages:${threadId}`, []),
+    saveMessages: (threadId, messages) => put(`messages:${threadId}`, messages),
+    deleteMessages: (threadId) => remove(`messages:${threadId}`),
+  };
+}
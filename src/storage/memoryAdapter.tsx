@@ -0,0 +1,55 @@
+import type { Message } from '../hooks/useChatbot';
+import type { ChatStorage, ChatThread, StorageAdapterOptions } from './types';
+
+type MemoryNamespace = {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  messages: Map<string, Message[]>;
+};
+
+const namespaces = new Map<string, MemoryNamespace>();
+
+/**
+ * Guarda o histórico só enquanto a página estiver aberta. Instâncias com o
+ * mesmo namespace compartilham os dados.
+ */
+export function createMemoryAdapter({ namespace = 'openai' }: StorageAdapterOptions = {}): ChatStorage {
+  let data = namespaces.get(namespace);
+
+  if (!data) {
+    data = { threads: [], activeThreadId: null, messages: new Map() };
+    namespaces.set(namespace, data);
+  }
+
+  const state = data;
+
+  return {
+    async getThreads() {
+      return [...state.threads];
+    },
+
+    async saveThreads(threads) {
+      state.threads = [...threads];
+    },
+
+    async getActiveThreadId() {
+      return state.activeThreadId;
+    },
+
+    async saveActiveThreadId(id) {
+      state.activeThreadId = id;
+    },
+
+    async getMessages(threadId) {
+      return [...(state.messages.get(threadId) ?? [])];
+    },
+
+    async saveMessages(threadId, messages) {
+      state.messages.set(threadId, [...messages]);
+    },
+
+    async deleteMessages(threadId) {
+      state.messages.delete(threadId);
+    },
+  };
+}
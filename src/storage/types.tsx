@@ -0,0 +1,29 @@
+import type { Message } from '../hooks/useChatbot';
+
+export type ChatThread = {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ChatStorage = {
+  getThreads: () => Promise<ChatThread[]>;
+  saveThreads: (threads: ChatThread[]) => Promise<void>;
+  getActiveThreadId: () => Promise<string | null>;
+  saveActiveThreadId: (id: string) => Promise<void>;
+  getMessages: (threadId: string) => Promise<Message[]>;
+  saveMessages: (threadId: string, messages: Message[]) => Promise<void>;
+  deleteMessages: (threadId: string) => Promise<void>;
+  /**
+   * Tamanho máximo, em caracteres, do conteúdo de cada anexo gravado. Os
+   * maiores são salvos só com nome e tipo. Sem valor, tudo é salvo.
+   */
+  maxAttachmentSize?: number;
+  /** Histórico salvo antes das conversas terem id, se o adapter souber ler. */
+  takeLegacyMessages?: () => Promise<Message[]>;
+};
+
+export type StorageAdapterOptions = {
+  namespace?: string;
+};
@@ -0,0 +1,73 @@
+import type { ChatStorage, StorageAdapterOptions } from './types';
+
+/** ~150 KB de imagem em base64; o `localStorage` inteiro costuma ter só ~5 MB. */
+const MAX_ATTACHMENT_SIZE = 200_000;
+
+function read<T>(storage: Storage, key: string, fallback: T): T {
+  try {
+    const value = storage.getItem(key);
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Adapter sobre a API `Storage` do navegador. Recebe uma função para que
+ * `localStorage` só seja acessado no cliente (SSR).
+ */
+export function createWebStorageAdapter(
+  getStorage: () => Storage,
+  { namespace = 'openai' }: StorageAdapterOptions = {}
+): ChatStorage {
+  const threadsKey = `chatbot_threads_${namespace}`;
+  const activeKey = `chatbot_active_thread_${namespace}`;
+  const messagesKey = (threadId: string) => `chatbot_messages_${namespace}_${threadId}`;
+  const legacyKey = `chatbot_messages_${namespace}`;
+
+  return {
+    maxAttachmentSize: MAX_ATTACHMENT_SIZE,
+
+    async getThreads() {
+      return read(getStorage(), threadsKey, []);
+    },
+
+    async saveThreads(threads) {
+      getStorage().setItem(threadsKey, JSON.stringify(threads));
+    },
+
+    async getActiveThreadId() {
+      return getStorage().getItem(activeKey);
+    },
+
+    async saveActiveThreadId(id) {
+      getStorage().setItem(activeKey, id);
+    },
+
+    async getMessages(threadId) {
+      return read(getStorage(), messagesKey(threadId), []);
+    },
+
+    async saveMessages(threadId, messages) {
+      getStorage().setItem(messagesKey(threadId), JSON.stringify(messages));
+    },
+
+    async deleteMessages(threadId) {
+      getStorage().removeItem(messagesKey(threadId));
+    },
+
+    async takeLegacyMessages() {
+      const messages = read(getStorage(), legacyKey, []);
+      getStorage().removeItem(legacyKey);
+      return messages;
+    },
+  };
+}
+
+export function createLocalStorageAdapter(options?: StorageAdapterOptions): ChatStorage {
+  return createWebStorageAdapter(() => localStorage, options);
+}
+
+export function createSessionStorageAdapter(options?: StorageAdapterOptions): ChatStorage {
+  return createWebStorageAdapter(() => sessionStorage, options);
+}
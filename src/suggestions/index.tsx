@@ -0,0 +1,53 @@
+import type { ChatProvider, CompleteOptions } from '../provider/types';
+
+export const DEFAULT_FOLLOW_UP_COUNT = 3;
+
+export const FOLLOW_UP_INSTRUCTIONS =
+  'Com base na última pergunta do usuário e na resposta do assistente, sugira as ' +
+  'próximas perguntas que o usuário provavelmente faria. Escreva cada pergunta do ' +
+  'ponto de vista do usuário, curta (até 60 caracteres), no mesmo idioma da conversa. ' +
+  'Responda só com as perguntas, uma por linha, sem numeração nem texto extra.';
+
+/** Uma pergunta por linha; tira numeração, marcadores e aspas que o modelo costuma pôr. */
+export function parseSuggestions(text: string, max = DEFAULT_FOLLOW_UP_COUNT): string[] {
+  const seen = new Set<string>();
+  const suggestions: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const suggestion = line
+      .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+      .replace(/^["'“”]+|["'“”]+$/g, '')
+      .trim();
+
+    if (!suggestion || suggestion.length > 120 || seen.has(suggestion.toLowerCase())) continue;
+
+    seen.add(suggestion.toLowerCase());
+    suggestions.push(suggestion);
+
+    if (suggestions.length === max) break;
+  }
+
+  return suggestions;
+}
+
+/**
+ * Pede ao modelo as próximas perguntas para a resposta dada. Usa
+ * `provider.complete`, então não entra no histórico da conversa.
+ */
+export async function generateFollowUps(
+  provider: ChatProvider,
+  question: string,
+  answer: string,
+  options: CompleteOptions & { count?: number } = {}
+): Promise<string[]> {
+  if (!provider.complete) return [];
+
+  const { count = DEFAULT_FOLLOW_UP_COUNT, ...completeOptions } = options;
+  const text = await provider.complete(
+    `${FOLLOW_UP_INSTRUCTIONS} Sugira no máximo ${count}.`,
+    `Usuário: ${question}\n\nAssistente: ${answer}`,
+    completeOptions
+  );
+
+  return parseSuggestions(text, count);
+}
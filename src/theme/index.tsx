@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+
+export type ChatbotTheme = {
+  colors: {
+    /** Botão flutuante e destaques. */
+    primary: string;
+    /** Fundo da janela e da lista de mensagens. */
+    background: string;
+    /** Header, área de digitação e itens selecionados. */
+    surface: string;
+    text: string;
+    mutedText: string;
+    border: string;
+    inputBackground: string;
+    inputText: string;
+    botBubble: string;
+    botText: string;
+    userBubble: string;
+    userText: string;
+    button: string;
+    buttonText: string;
+    errorBubble: string;
+    errorText: string;
+    /** Erros curtos fora de balões, como o de anexo recusado. */
+    danger: string;
+  };
+  radii: {
+    window: string;
+    bubble: string;
+    button: string;
+    input: string;
+  };
+  fonts: {
+    family: string;
+    size: string;
+    smallSize: string;
+    lineHeight: string;
+  };
+  spacing: {
+    xs: string;
+    sm: string;
+    md: string;
+    lg: string;
+  };
+  shadow: string;
+};
+
+export type ChatbotThemeName = 'light' | 'dark' | 'auto';
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+/** Ajustes sobre um preset. Sem `preset`, parte do tema escuro. */
+export type ChatbotThemeOverrides = DeepPartial<ChatbotTheme> & {
+  preset?: ChatbotThemeName;
+};
+
+const base: Omit<ChatbotTheme, 'colors'> = {
+  radii: {
+    window: '0.5rem',
+    bubble: '1rem',
+    button: '0.5rem',
+    input: '0.5rem',
+  },
+  fonts: {
+    family: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif',
+    size: '0.875rem',
+    smallSize: '0.75rem',
+    lineHeight: '1.5rem',
+  },
+  spacing: {
+    xs: '0.25rem',
+    sm: '0.5rem',
+    md: '0.75rem',
+    lg: '1rem',
+  },
+  shadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+};
+
+export const darkTheme: ChatbotTheme = {
+  ...base,
+  colors: {
+    primary: '#10a37f',
+    background: '#181C24',
+    surface: '#1e202c',
+    text: '#ffffff',
+    mutedText: '#9ca3af',
+    border: 'rgba(255, 255, 255, 0.1)',
+    inputBackground: '#181C24',
+    inputText: '#ffffff',
+    botBubble: '#f6f8fa',
+    botText: '#1b5e20',
+    userBubble: '#10a37f',
+    userText: '#ffffff',
+    button: '#10a37f',
+    buttonText: '#ffffff',
+    errorBubble: '#fee2e2',
+    errorText: '#991b1b',
+    danger: '#f87171',
+  },
+};
+
+export const lightTheme: ChatbotTheme = {
+  ...base,
+  shadow: '0 10px 40px rgba(0, 0, 0, 0.12)',
+  colors: {
+    primary: '#10a37f',
+    background: '#ffffff',
+    surface: '#f3f4f6',
+    text: '#111827',
+    mutedText: '#6b7280',
+    border: 'rgba(0, 0, 0, 0.1)',
+    inputBackground: '#ffffff',
+    inputText: '#111827',
+    botBubble: '#f3f4f6',
+    botText: '#111827',
+    userBubble: '#10a37f',
+    userText: '#ffffff',
+    button: '#10a37f',
+    buttonText: '#ffffff',
+    errorBubble: '#fee2e2',
+    errorText: '#991b1b',
+    danger: '#dc2626',
+  },
+};
+
+export function resolveTheme(
+  scheme: 'light' | 'dark',
+  overrides: DeepPartial<ChatbotTheme> = {}
+): ChatbotTheme {
+  const preset = scheme === 'light' ? lightTheme : darkTheme;
+
+  return {
+    colors: { ...preset.colors, ...overrides.colors },
+    radii: { ...preset.radii, ...overrides.radii },
+    fonts: { ...preset.fonts, ...overrides.fonts },
+    spacing: { ...preset.spacing, ...overrides.spacing },
+    shadow: overrides.shadow ?? preset.shadow,
+  };
+}
+
+function kebab(key: string): string {
+  return key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
+
+/** `colors.botBubble` vira `--cb-color-bot-bubble`, `radii.window` vira `--cb-radius-window`... */
+export function themeToCssVariables(theme: ChatbotTheme): Record<string, string> {
+  const variables: Record<string, string> = { '--cb-shadow': theme.shadow };
+  const groups = [
+    ['color', theme.colors],
+    ['radius', theme.radii],
+    ['font', theme.fonts],
+    ['space', theme.spacing],
+  ] as const;
+
+  for (const [prefix, values] of groups) {
+    for (const [key, value] of Object.entries(values)) {
+      variables[`--cb-${prefix}-${kebab(key)}`] = value;
+    }
+  }
+
+  return variables;
+}
+
+/** Acompanha o `prefers-color-scheme` do sistema. */
+export function usePrefersDark(): boolean {
+  const query = '(prefers-color-scheme: dark)';
+  const [prefersDark, setPrefersDark] = useState(
+    () => typeof window !== 'undefined' && !!window.matchMedia?.(query).matches
+  );
+
+  useEffect(() => {
+    const media = window.matchMedia?.(query);
+    if (!media) return;
+
+    const onChange = (event: MediaQueryListEvent) => setPrefersDark(event.matches);
+    setPrefersDark(media.matches);
+    media.addEventListener('change', onChange);
+
+    return () => media.removeEventListener('change', onChange);
+  }, []);
+
+  return prefersDark;
+}
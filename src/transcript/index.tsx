@@ -0,0 +1,470 @@
+import Markdown from 'react-markdown';
+import type { Message, MessageFeedback } from '../hooks/useChatbot';
+import type { AgentInfo } from '../handoff';
+import type { Citation } from '../knowledge';
+import type { Attachment } from '../provider/attachments';
+import { ChatbotError, isChatbotErrorCode } from '../provider/errors';
+import type { TokenUsage } from '../provider/types';
+import type { ToolActivity } from '../provider/tools';
+
+export type TranscriptFormat = 'markdown' | 'json' | 'html';
+
+/** Sobe quando o formato do JSON mudar de um jeito que versões antigas não leem. */
+export const TRANSCRIPT_VERSION = 1;
+
+/** Formato do arquivo JSON, o único que pode ser importado de volta. */
+export type ChatTranscript = {
+  version: number;
+  exportedAt: string;
+  title?: string;
+  messages: Message[];
+};
+
+/** Nomes e textos usados no Markdown e no HTML. */
+export type TranscriptLabels = {
+  title: string;
+  user: string;
+  assistant: string;
+  agent: string;
+  /** Com `{date}`. */
+  exportedAt: string;
+  locale?: string;
+};
+
+const ROLES = new Set<Message['role']>(['user', 'assistant', 'error', 'tool', 'agent']);
+
+const FILE_TYPES: Record<TranscriptFormat, { extension: string; mime: string }> = {
+  markdown: { extension: 'md', mime: 'text/markdown' },
+  json: { extension: 'json', mime: 'application/json' },
+  html: { extension: 'html', mime: 'text/html' },
+};
+
+/** Só o que é conversa de fato: ferramentas e erros ficam de fora do Markdown e do HTML. */
+function readableMessages(messages: Message[]): Message[] {
+  return messages.filter(
+    (m) =>
+      m.role === 'user' ||
+      m.role === 'assistant' ||
+      m.role === 'agent' ||
+      (m.role === 'system' && m.handoff)
+  );
+}
+
+function authorOf(message: Message, labels: TranscriptLabels): string {
+  if (message.role === 'user') return labels.user;
+  if (message.role === 'agent') return message.agent?.name ?? labels.agent;
+  return labels.assistant;
+}
+
+function formatDate(timestamp: number, locale?: string): string {
+  return new Date(timestamp).toLocaleString(locale);
+}
+
+export function transcriptToJson(messages: Message[], title?: string): string {
+  const transcript: ChatTranscript = {
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(title ? { title } : {}),
+    // Avisos do atendimento não são salvos no histórico, então também não são exportados.
+    messages: messages.filter((m) => m.role !== 'system'),
+  };
+
+  return JSON.stringify(transcript, null, 2);
+}
+
+export function transcriptToMarkdown(messages: Message[], labels: TranscriptLabels): string {
+  const lines = [
+    `# ${labels.title}`,
+    '',
+    `_${labels.exportedAt.replace('{date}', formatDate(Date.now(), labels.locale))}_`,
+  ];
+
+  for (const message of readableMessages(messages)) {
+    lines.push('', '---', '');
+
+    if (message.role === 'system') {
+      lines.push(`_${message.content}_`);
+      continue;
+    }
+
+    lines.push(
+      `**${authorOf(message, labels)}** · ${formatDate(message.timestamp, labels.locale)}`,
+      '',
+      message.content
+    );
+
+    for (const attachment of message.attachments ?? []) {
+      lines.push('', `📎 ${attachment.name}`);
+    }
+
+    for (const source of message.sources ?? []) {
+      const link = source.url ? `[${source.title}](${source.url})` : source.title;
+      lines.push('', `[${source.index}] ${link}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+const HTML_STYLES = `
+  body { max-width: 48rem; margin: 2rem auto; padding: 0 1rem; font: 15px/1.5 system-ui, sans-serif; color: #1f2937; }
+  h1 { font-size: 1.4rem; margin-bottom: 0; }
+  .exported { color: #6b7280; font-size: 0.85rem; }
+  .message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 0.5rem; background: #f3f4f6; break-inside: avoid; }
+  .message.user { background: #e0e7ff; }
+  .meta { font-size: 0.8rem; color: #6b7280; margin-bottom: 0.25rem; }
+  .meta strong { color: #111827; }
+  .notice { text-align: center; color: #6b7280; font-size: 0.85rem; font-style: italic; }
+  .content > :first-child { margin-top: 0; }
+  .content > :last-child { margin-bottom: 0; }
+  pre { overflow-x: auto; padding: 0.5rem; background: #111827; color: #f9fafb; border-radius: 0.25rem; }
+  pre, code { white-space: pre-wrap; }
+  img { max-width: 100%; }
+  .sources { margin: 0.5rem 0 0; padding-left: 1.25rem; font-size: 0.85rem; }
+  @media print { body { margin: 0; } .message { border: 1px solid #d1d5db; } }
+`;
+
+/**
+ * Página HTML completa, sem arquivos externos, pronta para imprimir ou
+ * salvar em PDF. O Markdown das respostas é renderizado aqui mesmo, com o
+ * `react-dom/server` carregado só quando alguém exporta.
+ */
+export async function transcriptToHtml(messages: Message[], labels: TranscriptLabels): Promise<string> {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+
+  const page = (
+    <html lang={labels.locale}>
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{labels.title}</title>
+        <style>{HTML_STYLES}</style>
+      </head>
+      <body>
+        <h1>{labels.title}</h1>
+        <p className="exported">
+          {labels.exportedAt.replace('{date}', formatDate(Date.now(), labels.locale))}
+        </p>
+
+        {readableMessages(messages).map((message) =>
+          message.role === 'system' ? (
+            <p key={message.id} className="notice">
+              {message.content}
+            </p>
+          ) : (
+            <div key={message.id} className={`message ${message.role}`}>
+              <div className="meta">
+                <strong>{authorOf(message, labels)}</strong> ·{' '}
+                {formatDate(message.timestamp, labels.locale)}
+              </div>
+              <div className="content">
+                <Markdown>{message.content}</Markdown>
+              </div>
+              {message.attachments?.map((attachment) =>
+                attachment.kind === 'image' && !attachment.omitted ? (
+                  <img key={attachment.name} src={attachment.data} alt={attachment.name} />
+                ) : (
+                  <p key={attachment.name}>📎 {attachment.name}</p>
+                )
+              )}
+              {message.sources?.length ? (
+                <ol className="sources">
+                  {message.sources.map((source) => (
+                    <li key={source.index} value={source.index}>
+                      {source.url ? <a href={source.url}>{source.title}</a> : source.title}
+                    </li>
+                  ))}
+                </ol>
+              ) : null}
+            </div>
+          )
+        )}
+      </body>
+    </html>
+  );
+
+  return `<!doctype html>\n${renderToStaticMarkup(page)}\n`;
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/** Só links http(s): um `javascript:` viraria um link clicável no chat e no HTML exportado. */
+function safeUrl(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readAttachment(value: unknown, index: number): Attachment | null {
+  if (
+    !isObject(value) ||
+    typeof value.name !== 'string' ||
+    typeof value.data !== 'string' ||
+    (value.kind !== 'image' && value.kind !== 'text')
+  ) {
+    return null;
+  }
+
+  // Imagem só como data URL, para o arquivo não carregar nada de fora.
+  if (value.kind === 'image' && value.data && !value.data.startsWith('data:image/')) {
+    return null;
+  }
+
+  return {
+    id: optionalString(value.id) ?? `imported-${index}`,
+    name: value.name,
+    type: optionalString(value.type) ?? '',
+    size: isFiniteNumber(value.size) ? value.size : value.data.length,
+    kind: value.kind,
+    data: value.data,
+    ...(value.omitted === true || !value.data ? { omitted: true } : {}),
+  };
+}
+
+function readSource(value: unknown): Citation | null {
+  if (!isObject(value) || !isFiniteNumber(value.index) || typeof value.title !== 'string') {
+    return null;
+  }
+
+  const url = safeUrl(value.url);
+  return { index: value.index, title: value.title, ...(url ? { url } : {}) };
+}
+
+function readAgent(value: unknown): AgentInfo | undefined {
+  if (!isObject(value) || typeof value.name !== 'string') return undefined;
+
+  const id = optionalString(value.id);
+  const avatar = safeUrl(value.avatar);
+  return { name: value.name, ...(id ? { id } : {}), ...(avatar ? { avatar } : {}) };
+}
+
+function readTool(value: unknown): ToolActivity | undefined {
+  if (
+    !isObject(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    typeof value.arguments !== 'string' ||
+    (value.status !== 'running' && value.status !== 'done' && value.status !== 'error')
+  ) {
+    return undefined;
+  }
+
+  const result = optionalString(value.result);
+  return {
+    id: value.id,
+    name: value.name,
+    arguments: value.arguments,
+    // Uma execução que estava em andamento na exportação não vai terminar.
+    status: value.status === 'running' ? 'error' : value.status,
+    ...(result !== undefined ? { result } : {}),
+  };
+}
+
+function readFeedback(value: unknown): MessageFeedback | undefined {
+  if (
+    !isObject(value) ||
+    (value.rating !== 'up' && value.rating !== 'down') ||
+    !isFiniteNumber(value.timestamp)
+  ) {
+    return undefined;
+  }
+
+  const comment = optionalString(value.comment);
+  return { rating: value.rating, timestamp: value.timestamp, ...(comment ? { comment } : {}) };
+}
+
+function readUsage(value: unknown): TokenUsage | undefined {
+  if (
+    !isObject(value) ||
+    !isFiniteNumber(value.promptTokens) ||
+    !isFiniteNumber(value.completionTokens) ||
+    !isFiniteNumber(value.totalTokens)
+  ) {
+    return undefined;
+  }
+
+  const model = optionalString(value.model);
+  return {
+    promptTokens: value.promptTokens,
+    completionTokens: value.completionTokens,
+    totalTokens: value.totalTokens,
+    ...(model ? { model } : {}),
+  };
+}
+
+function readParams(value: unknown): Record<string, string | number> | undefined {
+  if (!isObject(value)) return undefined;
+
+  const entries = Object.entries(value).filter(
+    (entry): entry is [string, string | number] =>
+      typeof entry[1] === 'string' || isFiniteNumber(entry[1])
+  );
+
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Monta a mensagem só com os campos conhecidos, cada um conferido. O que
+ * vier com formato errado fica de fora; `id` vem vazio e quem importa gera um novo.
+ */
+function readMessage(value: unknown): Message | null {
+  if (
+    !isObject(value) ||
+    !ROLES.has(value.role as Message['role']) ||
+    typeof value.content !== 'string' ||
+    !isFiniteNumber(value.timestamp)
+  ) {
+    return null;
+  }
+
+  const role = value.role as Message['role'];
+  const message: Message = { id: '', role, content: value.content, timestamp: value.timestamp };
+
+  if (role === 'error') {
+    message.error = true;
+    // Sem código conhecido, o chat mostra o texto salvo em `content`.
+    if (isChatbotErrorCode(value.errorCode)) message.errorCode = value.errorCode;
+
+    const params = readParams(value.errorParams);
+    if (params) message.errorParams = params;
+  }
+
+  if (role === 'tool') {
+    const tool = readTool(value.tool);
+    if (!tool) return null;
+    message.tool = tool;
+  }
+
+  if (role === 'agent') {
+    const agent = readAgent(value.agent);
+    if (agent) message.agent = agent;
+  }
+
+  if (role === 'user' && value.handoff === true) {
+    message.handoff = true;
+  }
+
+  if (Array.isArray(value.attachments)) {
+    const attachments = value.attachments
+      .map(readAttachment)
+      .filter((attachment): attachment is Attachment => attachment !== null);
+    if (attachments.length) message.attachments = attachments;
+  }
+
+  if (role === 'assistant') {
+    if (Array.isArray(value.sources)) {
+      const sources = value.sources
+        .map(readSource)
+        .filter((source): source is Citation => source !== null);
+      if (sources.length) message.sources = sources;
+    }
+
+    const feedback = readFeedback(value.feedback);
+    if (feedback) message.feedback = feedback;
+
+    const usage = readUsage(value.usage);
+    if (usage) message.usage = usage;
+    if (isFiniteNumber(value.cost)) message.cost = value.cost;
+
+    if (Array.isArray(value.suggestions)) {
+      const suggestions = value.suggestions.filter(
+        (suggestion): suggestion is string => typeof suggestion === 'string'
+      );
+      if (suggestions.length) message.suggestions = suggestions;
+    }
+  }
+
+  return message;
+}
+
+/**
+ * Lê um arquivo gerado por `transcriptToJson`. Mensagens com formato
+ * estranho são descartadas; um arquivo sem nenhuma válida é recusado.
+ */
+export function parseTranscript(text: string): ChatTranscript {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ChatbotError('invalid_transcript', 'Arquivo de conversa não é um JSON válido', {
+      cause: error,
+    });
+  }
+
+  const transcript = data as Partial<ChatTranscript> | null;
+
+  if (
+    !transcript ||
+    typeof transcript.version !== 'number' ||
+    transcript.version > TRANSCRIPT_VERSION ||
+    !Array.isArray(transcript.messages)
+  ) {
+    throw new ChatbotError(
+      'invalid_transcript',
+      'Arquivo de conversa sem versão suportada ou sem mensagens'
+    );
+  }
+
+  const messages = (transcript.messages as unknown[])
+    .map(readMessage)
+    .filter((message): message is Message => message !== null);
+
+  if (messages.length === 0) {
+    throw new ChatbotError('invalid_transcript', 'Arquivo de conversa sem mensagens válidas');
+  }
+
+  return {
+    version: transcript.version,
+    exportedAt: optionalString(transcript.exportedAt) ?? '',
+    ...(typeof transcript.title === 'string' ? { title: transcript.title } : {}),
+    messages,
+  };
+}
+
+export function transcriptFileName(title: string, format: TranscriptFormat): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  const date = new Date().toISOString().slice(0, 10);
+
+  return `${slug || 'conversa'}-${date}.${FILE_TYPES[format].extension}`;
+}
+
+/** Baixa o conteúdo como arquivo, pelo navegador. */
+export function downloadTranscript(content: string, format: TranscriptFormat, title: string) {
+  const blob = new Blob([content], { type: `${FILE_TYPES[format].mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = transcriptFileName(title, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Alguns navegadores ainda leem a URL logo depois do clique.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
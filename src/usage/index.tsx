@@ -0,0 +1,176 @@
+import type { ChatbotErrorCode, TokenUsage } from '../provider';
+
+/** Preço por 1 milhão de tokens, na moeda de `UsageLimits.currency`. */
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+/**
+ * Chave é o nome do modelo. Também vale como prefixo: `gpt-4o-mini` cobre
+ * `gpt-4o-mini-2024-07-18`, que é o nome que a API devolve.
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/** Limites da sessão do navegador, somando todas as conversas. */
+export type UsageLimits = {
+  maxTokens?: number;
+  /** Exige `pricing` com o modelo em uso. */
+  maxCost?: number;
+  maxUserTurns?: number;
+  /** No máximo `maxMessages` envios a cada `durationMs`. */
+  window?: { maxMessages: number; durationMs: number };
+  /** Moeda para exibir o saldo. Padrão: `USD`. */
+  currency?: string;
+};
+
+/** O que já foi gasto na sessão. Apagar mensagens ou conversas não devolve nada. */
+export type UsageLedger = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  userTurns: number;
+  /** Horários dos envios ainda dentro da janela de `UsageLimits.window`. */
+  recentTurns: number[];
+};
+
+export type UsageStatus = UsageLedger & {
+  remaining: {
+    /** O menor entre o limite da conversa, o da sessão e o da janela. */
+    messages?: number;
+    tokens?: number;
+    cost?: number;
+  };
+  /** Limite que impede o próximo envio, se houver. */
+  blockedBy?: { code: ChatbotErrorCode; params?: Record<string, string | number> };
+  /** Quando a janela de envios libera a próxima mensagem. */
+  resetsAt?: number;
+};
+
+export const EMPTY_LEDGER: UsageLedger = {
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+  userTurns: 0,
+  recentTurns: [],
+};
+
+export function findPrice(model: string | undefined, pricing: PriceTable = {}): ModelPrice | undefined {
+  if (!model) return undefined;
+  if (pricing[model]) return pricing[model];
+
+  const prefix = Object.keys(pricing)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? pricing[prefix] : undefined;
+}
+
+/** `undefined` quando o modelo não está na tabela. */
+export function costOf(usage: TokenUsage, pricing?: PriceTable): number | undefined {
+  const price = findPrice(usage.model, pricing);
+  if (!price) return undefined;
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export function recordUsage(ledger: UsageLedger, usage: TokenUsage, cost = 0): UsageLedger {
+  return {
+    ...ledger,
+    promptTokens: ledger.promptTokens + usage.promptTokens,
+    completionTokens: ledger.completionTokens + usage.completionTokens,
+    totalTokens: ledger.totalTokens + usage.totalTokens,
+    cost: ledger.cost + cost,
+  };
+}
+
+export function recordTurn(ledger: UsageLedger, timestamp: number, windowMs = 0): UsageLedger {
+  return {
+    ...ledger,
+    userTurns: ledger.userTurns + 1,
+    recentTurns: windowMs
+      ? [...ledger.recentTurns.filter((t) => t > timestamp - windowMs), timestamp]
+      : [],
+  };
+}
+
+/**
+ * `conversationTurns` e `conversationLimit` são o antigo `config.limit`,
+ * que conta só as mensagens do usuário na conversa atual.
+ */
+export function getUsageStatus(
+  ledger: UsageLedger,
+  limits: UsageLimits = {},
+  now = Date.now(),
+  conversationTurns = 0,
+  conversationLimit?: number
+): UsageStatus {
+  const remaining: UsageStatus['remaining'] = {};
+  let blockedBy: UsageStatus['blockedBy'];
+  let resetsAt: number | undefined;
+
+  const remainingMessages: number[] = [];
+
+  if (conversationLimit) {
+    const left = conversationLimit - conversationTurns;
+    remainingMessages.push(left);
+    if (left <= 0) blockedBy = { code: 'limit_reached' };
+  }
+
+  if (limits.maxUserTurns) {
+    const left = limits.maxUserTurns - ledger.userTurns;
+    remainingMessages.push(left);
+    if (left <= 0) blockedBy ??= { code: 'turn_limit_reached' };
+  }
+
+  if (limits.window) {
+    const { maxMessages, durationMs } = limits.window;
+    const inWindow = ledger.recentTurns.filter((t) => t > now - durationMs);
+    const left = maxMessages - inWindow.length;
+    remainingMessages.push(left);
+
+    if (left <= 0) {
+      resetsAt = inWindow[inWindow.length - maxMessages] + durationMs;
+      blockedBy ??= {
+        code: 'window_limit_reached',
+        params: { minutes: Math.max(Math.ceil((resetsAt - now) / 60_000), 1) },
+      };
+    }
+  }
+
+  if (remainingMessages.length > 0) {
+    remaining.messages = Math.max(Math.min(...remainingMessages), 0);
+  }
+
+  if (limits.maxTokens) {
+    remaining.tokens = Math.max(limits.maxTokens - ledger.totalTokens, 0);
+    if (remaining.tokens === 0) blockedBy ??= { code: 'token_limit_reached' };
+  }
+
+  if (limits.maxCost) {
+    remaining.cost = Math.max(limits.maxCost - ledger.cost, 0);
+    if (remaining.cost === 0) blockedBy ??= { code: 'cost_limit_reached' };
+  }
+
+  return { ...ledger, remaining, blockedBy, resetsAt };
+}
+
+/** Persistido no `sessionStorage`: recarregar a página não zera o consumo. */
+export function loadLedger(key: string): UsageLedger {
+  try {
+    const value = sessionStorage.getItem(key);
+    return value ? { ...EMPTY_LEDGER, ...JSON.parse(value) } : EMPTY_LEDGER;
+  } catch {
+    return EMPTY_LEDGER;
+  }
+}
+
+export function saveLedger(key: string, ledger: UsageLedger) {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(ledger));
+  } catch {
+    // Sem sessionStorage (SSR, modo privado): o consumo vale só até recarregar.
+  }
+}